@@ -0,0 +1,228 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Type, type Schema } from '@google/genai';
+import type { ExtractedData, ExtractedField } from './types.ts';
+import { locationAreaParser } from './parsers.ts';
+
+export type AiDataset = {
+  name: string;
+  data: ExtractedData[];
+};
+
+export type AiDiscrepancy = {
+  record: ExtractedData;
+  presentIn: string[];
+  missingFrom: string[];
+  suspectedCause: string;
+};
+
+// A slice of every dataset restricted to one LAC range
+export type AiChunk = {
+  index: number;
+  total: number;
+  fromLac: string;
+  toLac: string;
+  datasets: AiDataset[];
+};
+
+// Something that turns a prompt into response text: Gemini, or the offline stub
+export type AiModel = {
+  name: string;
+  generate: (prompt: string, schema: Schema) => Promise<string>;
+};
+
+export type AiChunkFailure = {
+  chunk: Pick<AiChunk, 'index' | 'fromLac' | 'toLac'>;
+  message: string;
+};
+
+export type AiAnalysisResult = {
+  discrepancies: AiDiscrepancy[];
+  chunkCount: number;
+  failures: AiChunkFailure[];
+};
+
+export class AiResponseError extends Error {
+  constructor(detail: string) {
+    super(`The AI response did not match the expected format: ${detail}`);
+    this.name = 'AiResponseError';
+  }
+}
+
+// Rows (summed over all datasets) sent to the model in one request
+export const MAX_ROWS_PER_CHUNK = 400;
+
+// The datasets follow this marker as JSON; the stub model reads them back from there
+export const DATASETS_MARKER = 'DATASETS_JSON:';
+
+const FIELDS = locationAreaParser.columns.map(c => c.key) as (ExtractedField)[];
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const STRING_ARRAY: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+export const DISCREPANCY_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    discrepancies: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          record: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(FIELDS.map(field => [field, { type: Type.STRING }])),
+            required: FIELDS,
+          },
+          presentIn: { ...STRING_ARRAY, description: 'Names of the datasets containing the record' },
+          missingFrom: { ...STRING_ARRAY, description: 'Names of the datasets lacking the record' },
+          suspectedCause: { type: Type.STRING, description: 'Most likely reason for the difference' },
+        },
+        required: ['record', 'presentIn', 'missingFrom', 'suspectedCause'],
+      },
+    },
+  },
+  required: ['discrepancies'],
+};
+
+// Splits the datasets into LAC ranges holding at most `maxRows` rows in
+// total. All rows of one LAC stay together, so a chunk can exceed the limit
+// only when a single LAC does.
+export function chunkDatasets(datasets: AiDataset[], maxRows: number = MAX_ROWS_PER_CHUNK): AiChunk[] {
+  const rowsPerLac = new Map<string, number>();
+  datasets.forEach(({ data }) => data.forEach(row => rowsPerLac.set(row.lac, (rowsPerLac.get(row.lac) ?? 0) + 1)));
+  const lacs = [...rowsPerLac.keys()].sort(collator.compare);
+
+  const ranges: string[][] = [];
+  let current: string[] = [];
+  let currentRows = 0;
+  lacs.forEach(lac => {
+    const rows = rowsPerLac.get(lac) ?? 0;
+    if (current.length > 0 && currentRows + rows > maxRows) {
+      ranges.push(current);
+      current = [];
+      currentRows = 0;
+    }
+    current.push(lac);
+    currentRows += rows;
+  });
+  if (current.length > 0) {
+    ranges.push(current);
+  }
+
+  return ranges.map((range, index) => {
+    const inRange = new Set(range);
+    return {
+      index,
+      total: ranges.length,
+      fromLac: range[0],
+      toLac: range[range.length - 1],
+      datasets: datasets.map(({ name, data }) => ({ name, data: data.filter(row => inRange.has(row.lac)) })),
+    };
+  });
+}
+
+export function buildDiscrepancyPrompt(chunk: AiChunk): string {
+  const payload = {
+    datasets: chunk.datasets.map(({ name, data }) => ({ name, rows: data.map(row => Object.fromEntries(FIELDS.map(f => [f, row[f]]))) })),
+  };
+  return [
+    'You are a data analyst comparing snapshots of SGSN/MME location area configuration taken from different files.',
+    'Each row has the fields lac, rat, location, tac and msc (the MSC/VLR).',
+    'The datasets are expected to be nearly identical, so every difference is significant.',
+    'Report every row that is present in at least one dataset but missing from at least one other.',
+    'For each, give the full row, the names of the datasets it is present in and missing from, and the most likely cause',
+    '(for example a changed TAC or MSC/VLR for the same LAC and RAT, a location area added or removed, or a typo).',
+    'Use the dataset names exactly as given. Report nothing for rows found in every dataset.',
+    `This is part ${chunk.index + 1} of ${chunk.total} and covers LAC ${chunk.fromLac} to ${chunk.toLac}.`,
+    DATASETS_MARKER,
+    JSON.stringify(payload),
+  ].join('\n');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Validates the model output against the schema and drops dataset names the
+// model made up, so the rendered table only refers to real snapshots
+export function parseDiscrepancyResponse(text: string, datasetNames: string[]): AiDiscrepancy[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new AiResponseError('not valid JSON.');
+  }
+  const items = (parsed as { discrepancies?: unknown })?.discrepancies;
+  if (!Array.isArray(items)) {
+    throw new AiResponseError('missing "discrepancies" array.');
+  }
+
+  const known = new Set(datasetNames);
+  return items.map((item, i) => {
+    const { record, presentIn, missingFrom, suspectedCause } = (item ?? {}) as Record<string, unknown>;
+    if (typeof record !== 'object' || record === null || !isStringArray(presentIn) || !isStringArray(missingFrom) || typeof suspectedCause !== 'string') {
+      throw new AiResponseError(`discrepancy ${i + 1} is incomplete.`);
+    }
+    const fields = record as Record<string, unknown>;
+    const text = (field: ExtractedField) => fields[field] === undefined || fields[field] === null ? '' : String(fields[field]);
+    return {
+      record: { lac: text('lac'), rat: text('rat'), location: text('location'), tac: text('tac'), msc: text('msc') },
+      presentIn: presentIn.filter(name => known.has(name)),
+      missingFrom: missingFrom.filter(name => known.has(name)),
+      suspectedCause,
+    };
+  });
+}
+
+function discrepancyKey({ record, presentIn, missingFrom }: AiDiscrepancy): string {
+  return JSON.stringify([FIELDS.map(f => record[f]), [...presentIn].sort(), [...missingFrom].sort()]);
+}
+
+// Chunks cover disjoint LAC ranges, so merging is a concatenation; duplicates
+// the model repeated within a chunk are dropped
+export function mergeDiscrepancies(results: AiDiscrepancy[][]): AiDiscrepancy[] {
+  const seen = new Set<string>();
+  return results.flat()
+    .filter(discrepancy => {
+      const key = discrepancyKey(discrepancy);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => collator.compare(a.record.lac, b.record.lac) || collator.compare(a.record.rat, b.record.rat));
+}
+
+// Runs one request per chunk, in order. A failing chunk is reported and the
+// remaining chunks still run, so one bad response does not lose the rest.
+export async function analyzeDiscrepancies(
+  datasets: AiDataset[],
+  model: AiModel,
+  onProgress?: (completed: number, total: number) => void
+): Promise<AiAnalysisResult> {
+  const chunks = chunkDatasets(datasets);
+  const datasetNames = datasets.map(d => d.name);
+  const results: AiDiscrepancy[][] = [];
+  const failures: AiChunkFailure[] = [];
+
+  for (const chunk of chunks) {
+    onProgress?.(chunk.index, chunks.length);
+    try {
+      const text = await model.generate(buildDiscrepancyPrompt(chunk), DISCREPANCY_RESPONSE_SCHEMA);
+      results.push(parseDiscrepancyResponse(text, datasetNames));
+    } catch (error) {
+      console.error(`AI analysis of LAC ${chunk.fromLac}-${chunk.toLac} failed:`, error);
+      failures.push({
+        chunk: { index: chunk.index, fromLac: chunk.fromLac, toLac: chunk.toLac },
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  onProgress?.(chunks.length, chunks.length);
+
+  return { discrepancies: mergeDiscrepancies(results), chunkCount: chunks.length, failures };
+}
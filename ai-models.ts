@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI } from '@google/genai';
+import type { ExtractedData, ExtractedField } from './types.ts';
+import { locationAreaParser } from './parsers.ts';
+import { DATASETS_MARKER, type AiDiscrepancy, type AiModel } from './ai-analysis.ts';
+
+export type AiModelId = 'gemini' | 'stub';
+
+export const GEMINI_MODEL = 'gemini-3-pro-preview';
+
+export function createGeminiClient(apiKey: string | undefined): GoogleGenAI {
+  if (!apiKey) {
+    throw new Error('No Gemini API key is configured. Set GEMINI_API_KEY in .env.local.');
+  }
+  return new GoogleGenAI({ apiKey });
+}
+
+export function createGeminiModel(apiKey: string | undefined): AiModel {
+  const ai = createGeminiClient(apiKey);
+  return {
+    name: GEMINI_MODEL,
+    generate: async (prompt, schema) => {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+        },
+      });
+      return response.text ?? '';
+    },
+  };
+}
+
+type StubPayload = {
+  datasets: { name: string; rows: ExtractedData[] }[];
+};
+
+// Deterministic stand-in for Gemini that answers from the datasets embedded
+// in the prompt. Used for offline testing of chunking, parsing and rendering.
+export function createStubModel(): AiModel {
+  const headers = Object.fromEntries(locationAreaParser.columns.map(c => [c.key, c.header]));
+
+  return {
+    name: 'local stub',
+    generate: async prompt => {
+      const markerIndex = prompt.indexOf(DATASETS_MARKER);
+      if (markerIndex < 0) {
+        return JSON.stringify({ discrepancies: [] });
+      }
+      const { datasets } = JSON.parse(prompt.slice(markerIndex + DATASETS_MARKER.length)) as StubPayload;
+      const rowKey = (row: ExtractedData) => JSON.stringify([row.lac, row.rat, row.location, row.tac, row.msc]);
+      const keysPerDataset = datasets.map(({ rows }) => new Set(rows.map(rowKey)));
+
+      const reported = new Set<string>();
+      const discrepancies: AiDiscrepancy[] = [];
+      datasets.forEach(({ rows }) => rows.forEach(row => {
+        const key = rowKey(row);
+        if (reported.has(key)) {
+          return;
+        }
+        reported.add(key);
+        const presentIn = datasets.filter((_, i) => keysPerDataset[i].has(key)).map(d => d.name);
+        const missing = datasets.filter((_, i) => !keysPerDataset[i].has(key));
+        if (missing.length === 0) {
+          return;
+        }
+
+        // Same LAC and RAT elsewhere means an attribute changed rather than the area being added or removed
+        const counterpart = missing.flatMap(d => d.rows).find(other => other.lac === row.lac && other.rat === row.rat);
+        const changed = counterpart
+          ? (Object.keys(headers) as (ExtractedField)[]).filter(field => counterpart[field] !== row[field])
+          : [];
+        discrepancies.push({
+          record: row,
+          presentIn,
+          missingFrom: missing.map(d => d.name),
+          suspectedCause: counterpart
+            ? `${changed.map(field => headers[field]).join(', ')} changed for LAC ${row.lac} / ${row.rat}`
+            : `Location area LAC ${row.lac} / ${row.rat} is not configured in ${missing.map(d => d.name).join(', ')}`,
+        });
+      }));
+      return JSON.stringify({ discrepancies });
+    },
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData } from './types.ts';
+import { dataToCsvString } from './csv.ts';
+import { createZipArchive } from './zip.ts';
+
+// In-browser equivalent of the /analyze-csv-files/ endpoints. Field names in
+// the summary mirror the backend's JSON so both modes render the same way.
+
+export type AnalysisSource = {
+  source: string;
+  data: ExtractedData[];
+};
+
+export type AnalysisSummary = {
+  total_files_processed: number;
+  total_rows: number;
+  total_unique_rows: number;
+};
+
+export type AnalysisFileResult = {
+  source: string;
+  total_rows: number;
+  unique_rows: ExtractedData[];
+};
+
+export type AnalysisResult = {
+  message: string;
+  summary: AnalysisSummary;
+  result_files: AnalysisFileResult[];
+};
+
+function rowKey(row: ExtractedData): string {
+  return [row.lac, row.rat, row.location, row.tac, row.msc].join('\u0001');
+}
+
+export function analyzeExtractions(sources: AnalysisSource[]): AnalysisResult {
+  // Count in how many sources each row appears (duplicates within a source count once)
+  const sourceKeys = sources.map(s => new Set(s.data.map(rowKey)));
+  const occurrences = new Map<string, number>();
+  sourceKeys.forEach(keys => {
+    keys.forEach(key => occurrences.set(key, (occurrences.get(key) ?? 0) + 1));
+  });
+
+  const resultFiles: AnalysisFileResult[] = sources.map(({ source, data }) => {
+    const seen = new Set<string>();
+    const uniqueRows = data.filter(row => {
+      const key = rowKey(row);
+      if (seen.has(key) || occurrences.get(key) !== 1) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+    return { source, total_rows: data.length, unique_rows: uniqueRows };
+  });
+
+  const summary: AnalysisSummary = {
+    total_files_processed: sources.length,
+    total_rows: resultFiles.reduce((sum, f) => sum + f.total_rows, 0),
+    total_unique_rows: resultFiles.reduce((sum, f) => sum + f.unique_rows.length, 0),
+  };
+
+  return {
+    message: `Compared ${sources.length} files: ${summary.total_unique_rows} rows appear in only one file.`,
+    summary,
+    result_files: resultFiles,
+  };
+}
+
+export function createAnalysisZip(result: AnalysisResult): Uint8Array {
+  return createZipArchive([
+    { name: 'summary.json', content: JSON.stringify({ message: result.message, summary: result.summary }, null, 2) },
+    ...result.result_files.map(file => ({
+      name: `unique_rows_${file.source}.csv`,
+      content: dataToCsvString(file.unique_rows),
+    })),
+  ]);
+}
@@ -0,0 +1,334 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData } from './types.ts';
+import type { AnalysisSummary } from './analysis.ts';
+import { dataToCsvString } from './csv.ts';
+
+export const DEFAULT_API_BASE_URL = 'http://localhost:8000';
+
+export type ApiClientOptions = {
+  baseUrl: string;
+  // Per attempt; retries get a fresh timeout
+  timeoutMs?: number;
+  retries?: number;
+  // Delay before the first retry, doubled for each further one
+  backoffMs?: number;
+};
+
+export type ApiUploadFile = {
+  name: string;
+  data: ExtractedData[];
+};
+
+export type SplitResultFile = {
+  source: string;
+  download_url: string;
+};
+
+export type SplitAnalysisResponse = {
+  message: string;
+  summary?: AnalysisSummary;
+  result_files: SplitResultFile[];
+};
+
+// The JSON analysis is shown as-is, so only its top level is checked
+export type JsonAnalysisResponse = Record<string, unknown>;
+
+export type HealthResponse = {
+  status: string;
+  version?: string;
+};
+
+export type ApiClient = {
+  baseUrl: string;
+  analyzeZip: (files: ApiUploadFile[], signal?: AbortSignal) => Promise<Blob>;
+  analyzeJson: (files: ApiUploadFile[], signal?: AbortSignal) => Promise<JsonAnalysisResponse>;
+  analyzeSplit: (files: ApiUploadFile[], signal?: AbortSignal) => Promise<SplitAnalysisResponse>;
+  // `path` is a server-relative URL such as a split result's download_url
+  downloadFile: (path: string, signal?: AbortSignal) => Promise<Blob>;
+  health: (signal?: AbortSignal) => Promise<HealthResponse>;
+};
+
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// The server could not be reached at all (offline, wrong URL, CORS)
+export class ApiNetworkError extends ApiError {
+  readonly baseUrl: string;
+
+  constructor(baseUrl: string) {
+    super(`Could not connect to the analysis server at ${baseUrl}.`);
+    this.name = 'ApiNetworkError';
+    this.baseUrl = baseUrl;
+  }
+}
+
+export class ApiTimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`The analysis server did not respond within ${timeoutMs / 1000} seconds.`);
+    this.name = 'ApiTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export class ApiCancelledError extends ApiError {
+  constructor() {
+    super('The request was cancelled.');
+    this.name = 'ApiCancelledError';
+  }
+}
+
+export class ApiHttpError extends ApiError {
+  readonly status: number;
+  // Parsed JSON error body, or the raw text when it is not JSON
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    super(`Server responded with status ${status}: ${typeof body === 'string' ? body || 'An unknown error occurred' : JSON.stringify(body, null, 2)}`);
+    this.name = 'ApiHttpError';
+    this.status = status;
+    this.body = body;
+  }
+
+  // The server rejected the uploaded data
+  get isValidationError(): boolean {
+    return this.status === 400 || this.status === 422;
+  }
+}
+
+// The backend failed to encode numeric columns (numpy int64) as JSON
+export class ApiSerializationError extends ApiHttpError {
+  constructor(status: number, body: unknown) {
+    super(status, body);
+    this.name = 'ApiSerializationError';
+  }
+}
+
+export class ApiResponseValidationError extends ApiError {
+  constructor(endpoint: string, detail: string) {
+    super(`Unexpected response from ${endpoint}: ${detail}`);
+    this.name = 'ApiResponseValidationError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_BACKOFF_MS = 500;
+const HEALTH_TIMEOUT_MS = 5000;
+// Overload responses: the server turned the request away, so even an upload
+// can be sent again
+const REJECTED_STATUSES = [429, 503];
+// Gateway failures, like timeouts, may come after the server did the work, so
+// only reads are retried on them
+const GATEWAY_STATUSES = [502, 504];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateSummary(endpoint: string, value: unknown): AnalysisSummary | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isRecord(value) || !['total_files_processed', 'total_rows', 'total_unique_rows'].every(key => typeof value[key] === 'number')) {
+    throw new ApiResponseValidationError(endpoint, 'summary must contain numeric total_files_processed, total_rows and total_unique_rows.');
+  }
+  return value as AnalysisSummary;
+}
+
+export function validateSplitResponse(endpoint: string, value: unknown): SplitAnalysisResponse {
+  if (!isRecord(value)) {
+    throw new ApiResponseValidationError(endpoint, 'expected a JSON object.');
+  }
+  if (!Array.isArray(value.result_files)) {
+    throw new ApiResponseValidationError(endpoint, 'missing result_files array.');
+  }
+  const resultFiles = value.result_files.map((file, i) => {
+    if (!isRecord(file) || typeof file.source !== 'string' || typeof file.download_url !== 'string') {
+      throw new ApiResponseValidationError(endpoint, `result_files[${i}] needs string source and download_url.`);
+    }
+    return { source: file.source, download_url: file.download_url };
+  });
+  return {
+    message: typeof value.message === 'string' ? value.message : '',
+    summary: validateSummary(endpoint, value.summary),
+    result_files: resultFiles,
+  };
+}
+
+export function validateHealthResponse(endpoint: string, value: unknown): HealthResponse {
+  if (!isRecord(value) || typeof value.status !== 'string') {
+    throw new ApiResponseValidationError(endpoint, 'expected an object with a string status.');
+  }
+  return { status: value.status, version: typeof value.version === 'string' ? value.version : undefined };
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function toHttpError(status: number, body: unknown): ApiHttpError {
+  // FastAPI reports unhandled encoder failures as a 500 with this wording
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  if (status >= 500 && /is not JSON serializable/.test(text)) {
+    return new ApiSerializationError(status, body);
+  }
+  return new ApiHttpError(status, body);
+}
+
+// Uploads start an analysis run, so they are only repeated when the server
+// cannot have received them
+function isRetryable(error: unknown, idempotent: boolean): boolean {
+  if (error instanceof ApiNetworkError) {
+    return true;
+  }
+  if (error instanceof ApiHttpError) {
+    return REJECTED_STATUSES.includes(error.status) || (idempotent && GATEWAY_STATUSES.includes(error.status));
+  }
+  return idempotent && error instanceof ApiTimeoutError;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function toFormData(files: ApiUploadFile[]): FormData {
+  const formData = new FormData();
+  files.forEach(file => {
+    formData.append('files', new Blob([dataToCsvString(file.data)], { type: 'text/csv' }), file.name);
+  });
+  return formData;
+}
+
+export function createApiClient({
+  baseUrl,
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  retries = DEFAULT_RETRIES,
+  backoffMs = DEFAULT_BACKOFF_MS,
+}: ApiClientOptions): ApiClient {
+  const root = baseUrl.trim().replace(/\/+$/, '');
+
+  // One attempt with its own timeout, linked to the caller's signal. The body
+  // is read before both are released, so a stalled download still times out
+  // and can be cancelled.
+  const attempt = async <T>(
+    path: string,
+    init: RequestInit,
+    read: (response: Response) => Promise<T>,
+    signal?: AbortSignal,
+    attemptTimeoutMs = timeoutMs
+  ): Promise<T> => {
+    if (signal?.aborted) {
+      throw new ApiCancelledError();
+    }
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, attemptTimeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(`${root}${path}`, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw toHttpError(response.status, await readErrorBody(response));
+      }
+      return await read(response);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (signal?.aborted) {
+        throw new ApiCancelledError();
+      }
+      if (timedOut) {
+        throw new ApiTimeoutError(attemptTimeoutMs);
+      }
+      throw new ApiNetworkError(root);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  const request = async <T>(path: string, init: RequestInit, read: (response: Response) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+      try {
+        return await attempt(path, init, read, signal);
+      } catch (error) {
+        if (!isRetryable(error, (init.method ?? 'GET') === 'GET') || retry >= retries) {
+          throw error;
+        }
+        await wait(backoffMs * 2 ** retry, signal);
+      }
+    }
+  };
+
+  // The body is read as text within the attempt and parsed afterwards, so a
+  // malformed body is not mistaken for a network failure
+  const parseJson = (path: string, text: string): unknown => {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ApiResponseValidationError(path, 'body is not valid JSON.');
+    }
+  };
+
+  const readBlob = (response: Response) => response.blob();
+  const readText = (response: Response) => response.text();
+
+  const post = <T>(path: string, files: ApiUploadFile[], read: (response: Response) => Promise<T>, signal?: AbortSignal) =>
+    request(path, { method: 'POST', body: toFormData(files) }, read, signal);
+
+  return {
+    baseUrl: root,
+    analyzeZip: (files, signal) => post('/analyze-csv-files/', files, readBlob, signal),
+    analyzeJson: async (files, signal) => {
+      const path = '/analyze-csv-files/with-json/';
+      const json = parseJson(path, await post(path, files, readText, signal));
+      if (!isRecord(json)) {
+        throw new ApiResponseValidationError(path, 'expected a JSON object.');
+      }
+      return json;
+    },
+    analyzeSplit: async (files, signal) => {
+      const path = '/analyze-csv-files/split/';
+      return validateSplitResponse(path, parseJson(path, await post(path, files, readText, signal)));
+    },
+    downloadFile: (path, signal) => request(path.startsWith('/') ? path : `/${path}`, {}, readBlob, signal),
+    // A single short attempt: the badge should flip to offline quickly
+    health: async signal => {
+      const path = '/health';
+      return validateHealthResponse(path, parseJson(path, await attempt(path, {}, readText, signal, Math.min(timeoutMs, HEALTH_TIMEOUT_MS))));
+    },
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type BarChartSeries = {
+  name: string;
+  values: number[];
+};
+
+export type BarChartOptions = {
+  title: string;
+  labels: string[];
+  // One bar per label in each series; several series are drawn as grouped bars
+  series: BarChartSeries[];
+  // Called with the label index when a bar group is clicked or chosen with the keyboard
+  onSelect?: (index: number) => void;
+};
+
+export type BarChart = {
+  element: HTMLCanvasElement;
+  toPngBlob: () => Promise<Blob>;
+};
+
+// Logical size; the canvas is scaled by devicePixelRatio for sharp text and
+// shrunk with CSS on narrow screens
+const CHART_WIDTH = 720;
+const LABEL_WIDTH = 180;
+const VALUE_WIDTH = 60;
+const PADDING = 12;
+const TITLE_HEIGHT = 28;
+const LEGEND_HEIGHT = 24;
+const BAR_HEIGHT = 14;
+const GROUP_GAP = 10;
+const FONT = '12px Inter, -apple-system, "Segoe UI", Roboto, Arial, sans-serif';
+const SERIES_COLORS = ['#4285F4', '#ff9800', '#1e8e3e', '#673ab7', '#d93025', '#00796b'];
+
+function fitText(context: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (context.measureText(text).width <= maxWidth) {
+    return text;
+  }
+  let fitted = text;
+  while (fitted.length > 1 && context.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+}
+
+// Horizontal bar chart drawn on a canvas, so it works offline and can be
+// exported as PNG without any charting library
+export function createBarChart({ title, labels, series, onSelect }: BarChartOptions): BarChart {
+  const showLegend = series.length > 1;
+  const groupHeight = series.length * BAR_HEIGHT + GROUP_GAP;
+  const plotTop = TITLE_HEIGHT + (showLegend ? LEGEND_HEIGHT : 0) + PADDING;
+  const height = plotTop + Math.max(labels.length, 1) * groupHeight + PADDING;
+  const maxValue = Math.max(1, ...series.flatMap(s => s.values));
+  const plotWidth = CHART_WIDTH - LABEL_WIDTH - VALUE_WIDTH - PADDING * 2;
+  let selectedIndex = -1;
+
+  const canvas = document.createElement('canvas');
+  canvas.className = 'bar-chart';
+  const scale = window.devicePixelRatio || 1;
+  canvas.width = CHART_WIDTH * scale;
+  canvas.height = height * scale;
+  canvas.style.width = `${CHART_WIDTH}px`;
+  canvas.setAttribute('role', 'img');
+  canvas.setAttribute('aria-label', `${title}: ${labels.map((label, i) => `${label} ${series.map(s => s.values[i]).join(' / ')}`).join(', ')}`);
+  if (onSelect) {
+    canvas.tabIndex = 0;
+    canvas.classList.add('selectable');
+  }
+
+  const draw = () => {
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return;
+    }
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    // Opaque background so exported PNGs are readable in any viewer
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, CHART_WIDTH, height);
+    context.font = FONT;
+    context.textBaseline = 'middle';
+
+    context.fillStyle = '#3c4043';
+    context.font = `bold ${FONT}`;
+    context.fillText(title, PADDING, TITLE_HEIGHT / 2 + PADDING / 2);
+    context.font = FONT;
+
+    if (showLegend) {
+      let x = PADDING;
+      series.forEach((s, i) => {
+        context.fillStyle = SERIES_COLORS[i % SERIES_COLORS.length];
+        context.fillRect(x, TITLE_HEIGHT + PADDING, 10, 10);
+        context.fillStyle = '#3c4043';
+        const name = fitText(context, s.name, 200);
+        context.fillText(name, x + 14, TITLE_HEIGHT + PADDING + 5);
+        x += 14 + context.measureText(name).width + 16;
+      });
+    }
+
+    if (labels.length === 0) {
+      context.fillStyle = '#5f6368';
+      context.fillText('No data', PADDING, plotTop + groupHeight / 2);
+      return;
+    }
+
+    labels.forEach((label, index) => {
+      const groupTop = plotTop + index * groupHeight;
+      if (index === selectedIndex) {
+        context.fillStyle = '#e8f0fe';
+        context.fillRect(0, groupTop - GROUP_GAP / 2, CHART_WIDTH, groupHeight);
+      }
+      context.fillStyle = '#3c4043';
+      context.textAlign = 'right';
+      context.fillText(fitText(context, label, LABEL_WIDTH - PADDING), LABEL_WIDTH, groupTop + (groupHeight - GROUP_GAP) / 2);
+      context.textAlign = 'left';
+
+      series.forEach((s, i) => {
+        const value = s.values[index] ?? 0;
+        const barTop = groupTop + i * BAR_HEIGHT;
+        const barWidth = (value / maxValue) * plotWidth;
+        context.fillStyle = SERIES_COLORS[i % SERIES_COLORS.length];
+        context.fillRect(LABEL_WIDTH + PADDING, barTop + 1, barWidth, BAR_HEIGHT - 2);
+        context.fillStyle = '#3c4043';
+        context.fillText(value.toLocaleString(), LABEL_WIDTH + PADDING + barWidth + 4, barTop + BAR_HEIGHT / 2);
+      });
+    });
+  };
+
+  const select = (index: number) => {
+    if (!onSelect || index < 0 || index >= labels.length) {
+      return;
+    }
+    selectedIndex = index;
+    draw();
+    onSelect(index);
+  };
+
+  canvas.addEventListener('click', event => {
+    // Map CSS pixels back to logical chart coordinates
+    const rect = canvas.getBoundingClientRect();
+    const y = (event.clientY - rect.top) * (height / rect.height);
+    select(Math.floor((y - plotTop + GROUP_GAP / 2) / groupHeight));
+  });
+  canvas.addEventListener('keydown', event => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      select(Math.min(Math.max(selectedIndex + (event.key === 'ArrowDown' ? 1 : -1), 0), labels.length - 1));
+    }
+  });
+
+  draw();
+
+  return {
+    element: canvas,
+    toPngBlob: () => new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not render the chart as PNG.')), 'image/png');
+    }),
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Baseline, ExtractedData } from './types.ts';
+import { diffToCsvString, type DiffStatus, type RecordDiff } from './diff.ts';
+import type { ColumnSettings } from './column-profiles.ts';
+import { createCheckbox, downloadBlob } from './dom.ts';
+import { renderDiffTable } from './diff-view.ts';
+import { applyDrift, detectDrift, driftCount, driftFields } from './baseline.ts';
+
+const DRIFT_STATUSES: DiffStatus[] = ['added', 'removed', 'modified'];
+
+export function baselineLabel(baseline: Baseline): string {
+  return `${baseline.node} · ${baseline.name} v${baseline.version}`;
+}
+
+// Drift of one snapshot from its node's baseline. Ticked changes can be
+// approved, which hands the baseline rows with those changes applied (and
+// whether every change was accepted) to `onApprove` to be stored as the next
+// version.
+export function renderDriftReport(
+  container: HTMLElement,
+  baseline: Baseline,
+  snapshot: { name: string; data: ExtractedData[] },
+  settings: ColumnSettings,
+  onApprove: (rows: ExtractedData[], acceptedAll: boolean) => void
+) {
+  const { columns, keyFields } = driftFields(settings, [baseline.rows, snapshot.data]);
+  const fields = columns.map(c => c.key);
+  const headers = Object.fromEntries(columns.map(c => [c.key, c.header]));
+  const diff = detectDrift(baseline, snapshot.data, keyFields, fields);
+  const drift = diff.entries.filter(entry => entry.status !== 'unchanged');
+  const visibleStatuses = new Set(DRIFT_STATUSES);
+  const accepted = new Set<RecordDiff<ExtractedData>>();
+
+  container.innerHTML = '<h3>Drift Report</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = `Baseline: ${baselineLabel(baseline)} (${baseline.rows.length} rows, ${new Date(baseline.id).toLocaleString()}) → Snapshot: ${snapshot.name} (${snapshot.data.length} rows). ${driftCount(diff)} changes, ${diff.counts.unchanged} records unchanged.`;
+  container.appendChild(description);
+
+  const statusControls = document.createElement('fieldset');
+  statusControls.className = 'diff-controls';
+  statusControls.innerHTML = '<legend>Show</legend>';
+
+  const actionButtons = document.createElement('div');
+  actionButtons.className = 'diff-export-buttons';
+  const selectAllButton = document.createElement('button');
+  selectAllButton.textContent = 'Accept All Shown';
+  const clearButton = document.createElement('button');
+  clearButton.textContent = 'Clear Selection';
+  const approveButton = document.createElement('button');
+  approveButton.textContent = 'Approve Accepted Changes';
+  const exportCsvButton = document.createElement('button');
+  exportCsvButton.textContent = 'Export CSV';
+  [selectAllButton, clearButton, approveButton, exportCsvButton].forEach(button => actionButtons.appendChild(button));
+
+  const tableArea = document.createElement('div');
+
+  const visibleEntries = () => drift.filter(entry => visibleStatuses.has(entry.status));
+  const render = () => renderDiffTable(visibleEntries(), columns, tableArea, accepted);
+
+  selectAllButton.onclick = () => {
+    visibleEntries().forEach(entry => accepted.add(entry));
+    render();
+  };
+  clearButton.onclick = () => {
+    accepted.clear();
+    render();
+  };
+  approveButton.onclick = () => {
+    if (accepted.size === 0) {
+      alert('Tick the changes to accept into the baseline first.');
+      return;
+    }
+    if (confirm(`Store ${baseline.node} baseline v${baseline.version + 1} with ${accepted.size} of ${drift.length} changes accepted?`)) {
+      onApprove(applyDrift(baseline.rows, [...accepted]), accepted.size === drift.length);
+    }
+  };
+  exportCsvButton.onclick = () => {
+    downloadBlob(new Blob([diffToCsvString(visibleEntries(), fields, headers)], { type: 'text/csv' }), 'baseline_drift.csv');
+  };
+
+  DRIFT_STATUSES.forEach(status => {
+    statusControls.appendChild(createCheckbox(`${status} (${diff.counts[status]})`, visibleStatuses.has(status), checkbox => {
+      if (checkbox.checked) {
+        visibleStatuses.add(status);
+      } else {
+        visibleStatuses.delete(status);
+      }
+      render();
+    }));
+  });
+
+  container.appendChild(statusControls);
+  container.appendChild(actionButtons);
+  container.appendChild(tableArea);
+  if (drift.length === 0) {
+    tableArea.textContent = 'The snapshot matches the baseline.';
+    return;
+  }
+  render();
+}
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Baseline, ExtractedData } from './types.ts';
+import { DEFAULT_DIFF_KEY_FIELDS, diffRecords, recordKey, type RecordDiff, type SnapshotDiff } from './diff.ts';
+import { locationAreaParser, type ColumnDef } from './parsers.ts';
+import { withAttributeColumns, type ColumnSettings } from './column-profiles.ts';
+
+export type DriftFields = {
+  columns: ColumnDef[];
+  keyFields: string[];
+};
+
+// Current version of each node's baseline
+export function latestBaselines(baselines: Baseline[]): Map<string, Baseline> {
+  const latest = new Map<string, Baseline>();
+  baselines.forEach(baseline => {
+    const current = latest.get(baseline.node);
+    if (!current || baseline.version > current.version) {
+      latest.set(baseline.node, baseline);
+    }
+  });
+  return latest;
+}
+
+export function nextBaselineVersion(baselines: Baseline[], node: string): number {
+  return Math.max(0, ...baselines.filter(baseline => baseline.node === node).map(baseline => baseline.version)) + 1;
+}
+
+// Combines partial dumps of one node: for every key, the rows of the newest
+// entry that has it are kept
+export function mergeSnapshots(snapshots: { timestamp: number; data: ExtractedData[] }[], keyFields: string[]): ExtractedData[] {
+  const rowsByKey = new Map<string, ExtractedData[]>();
+  [...snapshots].sort((a, b) => b.timestamp - a.timestamp).forEach(snapshot => {
+    const seen = new Set<string>();
+    snapshot.data.forEach(row => {
+      const key = recordKey(row, keyFields);
+      const group = rowsByKey.get(key);
+      if (!group) {
+        seen.add(key);
+        rowsByKey.set(key, [row]);
+      } else if (seen.has(key)) {
+        group.push(row);
+      }
+    });
+  });
+  return [...rowsByKey.values()].flat();
+}
+
+// Compared columns and record key under the column settings, so the history
+// badge and the drift report count the same changes
+export function driftFields(settings: ColumnSettings, recordSets: ExtractedData[][]): DriftFields {
+  const columns = withAttributeColumns(locationAreaParser.columns, settings.attributes, recordSets);
+  const keyFields = settings.keyFields.filter(field => columns.some(c => c.key === field));
+  return { columns, keyFields: keyFields.length > 0 ? keyFields : DEFAULT_DIFF_KEY_FIELDS };
+}
+
+export function detectDrift(baseline: Baseline, data: ExtractedData[], keyFields: string[], fields: string[]): SnapshotDiff<ExtractedData> {
+  return diffRecords(baseline.rows, data, keyFields, fields);
+}
+
+export function driftCount(diff: SnapshotDiff): number {
+  return diff.counts.added + diff.counts.removed + diff.counts.modified;
+}
+
+// Baseline rows with the accepted changes of a drift report applied. Entries
+// refer to the baseline's own row objects, so rows are replaced by identity.
+export function applyDrift(rows: ExtractedData[], accepted: RecordDiff<ExtractedData>[]): ExtractedData[] {
+  const replacements = new Map<ExtractedData, ExtractedData | null>();
+  const added: ExtractedData[] = [];
+  accepted.forEach(entry => {
+    if (entry.before) {
+      replacements.set(entry.before, entry.after);
+    } else if (entry.after) {
+      added.push(entry.after);
+    }
+  });
+  return [
+    ...rows.flatMap(row => {
+      const replacement = replacements.has(row) ? replacements.get(row) : row;
+      return replacement ? [replacement] : [];
+    }),
+    ...added,
+  ];
+}
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Headless extraction and comparison for scripts and cron jobs. Run with
+// `npm run cli -- <command> ...`:
+//
+//   extract <dump>             write the extracted rows
+//     --type=la                la | ra | tal | mscpool | gan | ta
+//     --format=csv             csv | json | ndjson | xlsx
+//     --delimiter=,            , | ; | tab (CSV only)
+//     --columns=-rac,-sgsn     captured flags to add as columns
+//   diff <before> <after>      compare two dumps or CSV/JSON exports by key
+//     --key=lac,rat            fields identifying a location area
+//     --columns=-rac           captured flags to compare (and allow in --key)
+//     --format=csv             csv | json
+//     --all                    also list unchanged rows
+//   validate <dump>            report consistency findings
+//     --format=text            text | json
+//     --strict                 fail on warnings as well as errors
+//
+// Every command takes --output=<file> (default: stdout). Parse diagnostics go
+// to stderr. Exit codes: 0 = clean, 1 = differences or findings, 2 = usage or
+// input error.
+import { openAsBlob } from 'node:fs';
+import { stat, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import type { ExtractedData } from './types.ts';
+import { CSV_DELIMITERS, type CsvDelimiter } from './csv.ts';
+import { DEFAULT_EXPORT_SETTINGS, exportRecords, type ExportFormat } from './exporters.ts';
+import { applyHeaderMapping, guessHeaderMapping, IMPORT_FIELDS, parseImportText } from './importers.ts';
+import { DEFAULT_DIFF_KEY_FIELDS, diffRecords, diffToCsvString } from './diff.ts';
+import { countBySeverity } from './validation.ts';
+import { sortedReasonCounts } from './diagnostics.ts';
+import { attributeColumn, COMMAND_PARSERS, getParser, isAttributeKey, locationAreaParser } from './parsers.ts';
+import { withAttributeColumns } from './column-profiles.ts';
+import { isGzipHeader, parseDumpStream, toExtractionResult, type ExtractionResult } from './extraction.ts';
+
+const EXIT_OK = 0;
+const EXIT_DIFFERENCES = 1;
+const EXIT_USAGE = 2;
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson', 'xlsx'];
+// Files read through the importers instead of the dump parsers
+const EXPORT_FILE_PATTERN = /\.(csv|json|ndjson)$/i;
+
+const USAGE = `Usage:
+  npm run cli -- extract <dump> [--type=la] [--format=csv|json|ndjson|xlsx] [--delimiter=,|;|tab] [--columns=-flag,...] [--output=<file>]
+  npm run cli -- diff <before> <after> [--key=lac,rat] [--columns=-flag,...] [--format=csv|json] [--all] [--output=<file>]
+  npm run cli -- validate <dump> [--format=text|json] [--strict] [--output=<file>]`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+type CliArgs = {
+  positional: string[];
+  options: Map<string, string>;
+};
+
+function parseArgs(argv: string[]): CliArgs {
+  const positional: string[] = [];
+  const options = new Map<string, string>();
+  argv.forEach(arg => {
+    const option = arg.match(/^--([^=]+)(?:=(.*))?$/);
+    if (option) {
+      options.set(option[1], option[2] ?? 'true');
+    } else {
+      positional.push(arg);
+    }
+  });
+  return { positional, options };
+}
+
+function readChoice<T extends string>(args: CliArgs, name: string, choices: readonly T[], fallback: T): T {
+  const value = args.options.get(name) ?? fallback;
+  if (!choices.includes(value as T)) {
+    throw new UsageError(`Unknown --${name} "${value}". Use one of: ${choices.join(', ')}.`);
+  }
+  return value as T;
+}
+
+// Flags captured on the parsed lines, written as on the line: -rac,-sgsn
+function readAttributeOption(args: CliArgs): string[] {
+  const attributes = args.options.get('columns')?.split(',').map(f => f.trim().toLowerCase()).filter(Boolean) ?? [];
+  const invalid = attributes.filter(attribute => !isAttributeKey(attribute));
+  if (invalid.length > 0) {
+    throw new UsageError(`--columns takes flags such as -rac, not ${invalid.join(', ')}.`);
+  }
+  return attributes;
+}
+
+function readPaths(args: CliArgs, count: number): string[] {
+  const paths = args.positional.slice(1);
+  if (paths.length !== count) {
+    throw new UsageError(`"${args.positional[0]}" expects ${count === 1 ? 'one file' : `${count} files`}.`);
+  }
+  return paths;
+}
+
+async function writeOutput(args: CliArgs, content: string | Blob) {
+  const output = args.options.get('output');
+  if (output) {
+    await writeFile(output, typeof content === 'string' ? content : new Uint8Array(await content.arrayBuffer()));
+  } else if (typeof content === 'string') {
+    // Keep the stderr summary that follows on its own line
+    process.stdout.write(content.endsWith('\n') ? content : `${content}\n`);
+  } else {
+    process.stdout.write(new Uint8Array(await content.arrayBuffer()));
+  }
+}
+
+async function openFile(path: string): Promise<Blob> {
+  try {
+    await stat(path);
+    return await openAsBlob(path);
+  } catch (error) {
+    throw new Error(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function reportDiagnostics(path: string, { diagnostics }: ExtractionResult) {
+  const skipped = diagnostics.totalLines - diagnostics.matchedLines;
+  console.error(`${path}: ${diagnostics.totalLines.toLocaleString()} lines, ${diagnostics.matchedLines.toLocaleString()} matched, ${skipped.toLocaleString()} skipped`);
+  sortedReasonCounts(diagnostics).forEach(([reason, count]) => {
+    console.error(`  ${count.toLocaleString()} × ${reason}`);
+  });
+}
+
+// Same streaming path as the web UI's parser worker
+async function extractFile(path: string): Promise<ExtractionResult> {
+  const file = await openFile(path);
+  const gzip = isGzipHeader(new Uint8Array(await file.slice(0, 2).arrayBuffer()));
+  const result = toExtractionResult(await parseDumpStream(file.stream(), gzip));
+  reportDiagnostics(path, result);
+  return result;
+}
+
+// Location area rows from a dump, or from a CSV/JSON export of one
+async function readLocationAreas(path: string): Promise<ExtractedData[]> {
+  if (!EXPORT_FILE_PATTERN.test(path)) {
+    return (await extractFile(path)).data;
+  }
+  const table = parseImportText(basename(path), await (await openFile(path)).text());
+  const mapping = guessHeaderMapping(table.headers);
+  const missing = IMPORT_FIELDS.filter(({ key }) => mapping[key] === null).map(({ header }) => header);
+  if (missing.length > 0) {
+    throw new Error(`${path} is missing the columns: ${missing.join(', ')}`);
+  }
+  return applyHeaderMapping(table, mapping);
+}
+
+async function runExtract(args: CliArgs): Promise<number> {
+  const [path] = readPaths(args, 1);
+  const type = readChoice(args, 'type', COMMAND_PARSERS.map(p => p.id), locationAreaParser.id);
+  const format = readChoice(args, 'format', EXPORT_FORMATS, 'csv');
+  const delimiterOption = args.options.get('delimiter') ?? DEFAULT_EXPORT_SETTINGS.delimiter;
+  const delimiter = (delimiterOption === 'tab' ? '\t' : delimiterOption) as CsvDelimiter;
+  if (!CSV_DELIMITERS.includes(delimiter)) {
+    throw new UsageError(`Unknown --delimiter "${delimiterOption}". Use one of: , ; tab.`);
+  }
+
+  const parser = getParser(type) ?? locationAreaParser;
+  const result = await extractFile(path);
+  const records = parser === locationAreaParser ? result.data : result.records[parser.id] ?? [];
+  const columns = withAttributeColumns(parser.columns, readAttributeOption(args), [records]);
+  const blob = exportRecords(records, columns, { ...DEFAULT_EXPORT_SETTINGS, format, delimiter }, parser.label);
+  await writeOutput(args, format === 'xlsx' ? blob : await blob.text());
+  return EXIT_OK;
+}
+
+async function runDiff(args: CliArgs): Promise<number> {
+  const [beforePath, afterPath] = readPaths(args, 2);
+  const format = readChoice(args, 'format', ['csv', 'json'], 'csv');
+  const columns = [...locationAreaParser.columns, ...readAttributeOption(args).map(attributeColumn)];
+  const fields = columns.map(c => c.key);
+  const keyFields = args.options.get('key')?.split(',').map(f => f.trim()).filter(Boolean) ?? DEFAULT_DIFF_KEY_FIELDS;
+  const unknownKeys = keyFields.filter(field => !fields.includes(field));
+  if (unknownKeys.length > 0) {
+    throw new UsageError(`Unknown --key field ${unknownKeys.join(', ')}. Use any of: ${fields.join(', ')}.`);
+  }
+
+  const diff = diffRecords(await readLocationAreas(beforePath), await readLocationAreas(afterPath), keyFields, fields);
+  const entries = args.options.has('all') ? diff.entries : diff.entries.filter(entry => entry.status !== 'unchanged');
+  if (format === 'json') {
+    await writeOutput(args, JSON.stringify({ keyFields, counts: diff.counts, entries }, null, 2) + '\n');
+  } else {
+    await writeOutput(args, diffToCsvString(entries, fields, Object.fromEntries(columns.map(c => [c.key, c.header]))));
+  }
+
+  const { added, removed, modified, unchanged } = diff.counts;
+  console.error(`${added} added, ${removed} removed, ${modified} modified, ${unchanged} unchanged`);
+  return added + removed + modified > 0 ? EXIT_DIFFERENCES : EXIT_OK;
+}
+
+async function runValidate(args: CliArgs): Promise<number> {
+  const [path] = readPaths(args, 1);
+  const format = readChoice(args, 'format', ['text', 'json'], 'text');
+  const { findings } = await extractFile(path);
+
+  if (format === 'json') {
+    await writeOutput(args, JSON.stringify(findings, null, 2) + '\n');
+  } else {
+    // Row numbers are 1-based positions in the extracted location areas
+    await writeOutput(args, findings.map(finding =>
+      `${finding.severity.toUpperCase()} [${finding.rule}] ${finding.message} (rows ${finding.rowIndexes.map(i => i + 1).join(', ')})\n`
+    ).join(''));
+  }
+
+  const counts = countBySeverity(findings);
+  console.error(`${counts.error} errors, ${counts.warning} warnings`);
+  return counts.error > 0 || (args.options.has('strict') && counts.warning > 0) ? EXIT_DIFFERENCES : EXIT_OK;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  switch (args.positional[0]) {
+    case 'extract':
+      return runExtract(args);
+    case 'diff':
+      return runDiff(args);
+    case 'validate':
+      return runValidate(args);
+    default:
+      throw new UsageError(args.positional[0] ? `Unknown command "${args.positional[0]}".` : 'No command given.');
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch(error => {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+    } else {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    process.exitCode = EXIT_USAGE;
+  });
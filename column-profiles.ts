@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParsedRecord } from './types.ts';
+import { ATTRIBUTE_PREFIX, attributeColumn, fieldValue, isAttributeKey, type ColumnDef } from './parsers.ts';
+import { DEFAULT_DIFF_KEY_FIELDS } from './diff.ts';
+
+// Which captured flag attributes are shown and exported as columns, and which
+// fields identify a record when comparing snapshots
+export type ColumnSettings = {
+  attributes: string[];
+  keyFields: string[];
+};
+
+export type ColumnProfile = ColumnSettings & {
+  name: string;
+};
+
+export const DEFAULT_COLUMN_SETTINGS: ColumnSettings = {
+  attributes: [],
+  keyFields: DEFAULT_DIFF_KEY_FIELDS,
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function collectAttributeKeys(recordSets: ParsedRecord[][]): string[] {
+  const keys = new Set<string>();
+  recordSets.forEach(records => {
+    records.forEach(record => {
+      Object.keys(record.attributes ?? {}).forEach(flag => keys.add(`${ATTRIBUTE_PREFIX}${flag}`));
+    });
+  });
+  return [...keys].sort(collator.compare);
+}
+
+// A record set's own columns followed by the chosen attributes it carries
+export function withAttributeColumns(columns: ColumnDef[], attributes: string[], recordSets: ParsedRecord[][]): ColumnDef[] {
+  const present = attributes.filter(key => recordSets.some(records => records.some(record => fieldValue(record, key) !== '')));
+  return [...columns, ...present.map(attributeColumn)];
+}
+
+export function readColumnSettings(value: unknown): ColumnSettings {
+  const settings = (value ?? {}) as Partial<ColumnSettings>;
+  const strings = (list: unknown) => Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+  const keyFields = strings(settings.keyFields);
+  return {
+    attributes: strings(settings.attributes).filter(isAttributeKey),
+    keyFields: keyFields.length > 0 ? keyFields : DEFAULT_COLUMN_SETTINGS.keyFields,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createCheckbox } from './dom.ts';
+import { createDataGrid } from './data-grid.ts';
+import {
+  CORRELATION_COLUMNS,
+  CORRELATION_ISSUE_LABELS,
+  CORRELATION_ISSUES,
+  correlateLocations,
+  correlationToRecords,
+  type CorrelationInput,
+} from './correlation.ts';
+
+// Joined 2G/3G/4G view per location and TAC. Only rows with issues are shown
+// until the user asks for all of them.
+export function renderCorrelation(container: HTMLElement, input: CorrelationInput, sourceNames: string[]) {
+  const { rows, issueCounts } = correlateLocations(input);
+  let showAll = false;
+
+  container.innerHTML = '<h3>SGSN/MME Correlation</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = `${input.locationAreas.length} location areas and ${input.trackingAreas.length} tracking areas from ${sourceNames.join(', ')}, joined into ${rows.length} locations.`;
+  container.appendChild(description);
+
+  if (input.trackingAreas.length === 0) {
+    const warning = document.createElement('p');
+    warning.className = 'error-message';
+    warning.textContent = 'No create_ta lines were found in the selected entries. Select the MME tracking area export together with the SGSN dump.';
+    container.appendChild(warning);
+  }
+
+  const summary = document.createElement('ul');
+  summary.className = 'correlation-summary';
+  CORRELATION_ISSUES.forEach(issue => {
+    const item = document.createElement('li');
+    item.textContent = `${CORRELATION_ISSUE_LABELS[issue]}: ${issueCounts[issue]}`;
+    item.classList.toggle('correlation-issue', issueCounts[issue] > 0);
+    summary.appendChild(item);
+  });
+  container.appendChild(summary);
+
+  const gridArea = document.createElement('div');
+  const render = () => {
+    const visibleRows = showAll ? rows : rows.filter(row => row.issues.length > 0);
+    gridArea.innerHTML = '';
+    if (visibleRows.length === 0) {
+      gridArea.textContent = 'Every location has matching location and tracking areas.';
+      return;
+    }
+    gridArea.appendChild(createDataGrid({
+      columns: CORRELATION_COLUMNS,
+      rows: correlationToRecords(visibleRows),
+      exportFileName: 'sgsn_mme_correlation.csv',
+    }).element);
+  };
+
+  const controls = document.createElement('fieldset');
+  controls.className = 'diff-controls';
+  const legend = document.createElement('legend');
+  legend.textContent = 'Show';
+  controls.appendChild(legend);
+  controls.appendChild(createCheckbox('Locations without issues', showAll, checkbox => {
+    showAll = checkbox.checked;
+    render();
+  }));
+
+  container.appendChild(controls);
+  container.appendChild(gridArea);
+  render();
+}
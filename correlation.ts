@@ -0,0 +1,182 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ParsedRecord } from './types.ts';
+import { normaliseCode, type ColumnDef, type MscPoolRecord, type TaiListRecord, type TrackingAreaRecord } from './parsers.ts';
+
+export type CorrelationIssue = 'la-without-ta' | 'ta-without-la' | 'csfb-msc-mismatch' | 'csfb-lac-mismatch' | 'mme-pool-mismatch';
+
+export type CorrelationInput = {
+  // SGSN location areas (2G/3G)
+  locationAreas: ExtractedData[];
+  // MME tracking areas (4G)
+  trackingAreas: TrackingAreaRecord[];
+  // Used to accept a CSFB target that is the pool an LA's MSC belongs to
+  mscPools: MscPoolRecord[];
+  // Used to check that a TAC's TAI lists are served by the TA's MME pool
+  taiLists: TaiListRecord[];
+};
+
+// One location/TAC with everything both nodes configure for it
+export type CorrelationRow = {
+  location: string;
+  tac: string;
+  lacs2g: string[];
+  lacs3g: string[];
+  // LACs whose RAT is neither GERAN nor UTRAN
+  lacsOther: string[];
+  sgsnMscs: string[];
+  hasTrackingArea: boolean;
+  mmePools: string[];
+  csfbLacs: string[];
+  csfbMscs: string[];
+  issues: CorrelationIssue[];
+};
+
+export type Correlation = {
+  rows: CorrelationRow[];
+  issueCounts: Record<CorrelationIssue, number>;
+};
+
+export const CORRELATION_ISSUES: CorrelationIssue[] = ['la-without-ta', 'ta-without-la', 'csfb-msc-mismatch', 'csfb-lac-mismatch', 'mme-pool-mismatch'];
+
+export const CORRELATION_ISSUE_LABELS: Record<CorrelationIssue, string> = {
+  'la-without-ta': 'LA without TA',
+  'ta-without-la': 'TA without LA',
+  'csfb-msc-mismatch': 'CSFB MSC mismatch',
+  'csfb-lac-mismatch': 'CSFB LAC mismatch',
+  'mme-pool-mismatch': 'MME pool mismatch',
+};
+
+// Flattened columns for grids and CSV export, see correlationToRecords
+export const CORRELATION_COLUMNS: ColumnDef[] = [
+  { key: 'location', header: 'LOCATION' },
+  { key: 'tac', header: 'TAC' },
+  { key: 'lacs2g', header: '2G LACS' },
+  { key: 'lacs3g', header: '3G LACS' },
+  { key: 'lacsOther', header: 'OTHER LACS' },
+  { key: 'ta4g', header: '4G TA' },
+  { key: 'sgsnMscs', header: 'MSC/VLR' },
+  { key: 'mmePools', header: 'MME POOL' },
+  { key: 'csfbLacs', header: 'CSFB LAC' },
+  { key: 'csfbMscs', header: 'CSFB MSC' },
+  { key: 'issues', header: 'ISSUES' },
+];
+
+type CorrelationGroup = {
+  location: string;
+  tac: string;
+  areas: ExtractedData[];
+  trackingAreas: TrackingAreaRecord[];
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Location and TAC, which one node may write zero-padded or in hex
+function groupKey(location: string, tac: string): string {
+  return `${location.trim().toLowerCase()}\u0000${normaliseCode(tac)}`;
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function uniqueSorted(values: string[]): string[] {
+  return [...new Set(values.filter(value => value !== ''))].sort(collator.compare);
+}
+
+function ratGeneration(rat: string): '2g' | '3g' | null {
+  if (/geran|gsm|2g/i.test(rat)) {
+    return '2g';
+  }
+  if (/utran|wcdma|umts|3g/i.test(rat)) {
+    return '3g';
+  }
+  return null;
+}
+
+// A CSFB target may name the MSC itself or an MSC pool it belongs to
+function servesMsc(target: string, msc: string, mscPools: MscPoolRecord[]): boolean {
+  return sameName(target, msc) || mscPools.some(member => sameName(member.pool, target) && sameName(member.msc, msc));
+}
+
+// Joins SGSN location areas and MME tracking areas on location and TAC (the
+// two halves of `-gan LOCATION_TAC`) and flags gaps and inconsistent CSFB
+// configuration between them
+export function correlateLocations({ locationAreas, trackingAreas, mscPools, taiLists }: CorrelationInput): Correlation {
+  const groups = new Map<string, CorrelationGroup>();
+  const groupFor = (location: string, tac: string) => {
+    const key = groupKey(location, tac);
+    let group = groups.get(key);
+    if (!group) {
+      group = { location, tac, areas: [], trackingAreas: [] };
+      groups.set(key, group);
+    }
+    return group;
+  };
+  locationAreas.forEach(area => groupFor(area.location, area.tac).areas.push(area));
+  trackingAreas.forEach(ta => groupFor(ta.location, ta.tac).trackingAreas.push(ta));
+
+  const rows = [...groups.values()].map(({ location, tac, areas, trackingAreas: tas }) => {
+    const lacsOf = (generation: '2g' | '3g' | null) =>
+      uniqueSorted(areas.filter(area => ratGeneration(area.rat) === generation).map(area => area.lac));
+    const sgsnMscs = uniqueSorted(areas.map(area => area.msc));
+    const mmePools = uniqueSorted(tas.map(ta => ta.mmepool));
+    const csfbLacs = uniqueSorted(tas.map(ta => ta.lac));
+    const csfbMscs = uniqueSorted(tas.map(ta => ta.msc));
+
+    const issues: CorrelationIssue[] = [];
+    if (areas.length > 0 && tas.length === 0) {
+      issues.push('la-without-ta');
+    }
+    if (tas.length > 0 && areas.length === 0) {
+      issues.push('ta-without-la');
+    }
+    if (areas.length > 0 && csfbMscs.some(target => !sgsnMscs.some(msc => servesMsc(target, msc, mscPools)))) {
+      issues.push('csfb-msc-mismatch');
+    }
+    if (areas.length > 0 && csfbLacs.some(lac => !areas.some(area => normaliseCode(area.lac) === normaliseCode(lac)))) {
+      issues.push('csfb-lac-mismatch');
+    }
+    const listMmes = uniqueSorted(taiLists.filter(list => normaliseCode(list.tac) === normaliseCode(tac)).map(list => list.mme));
+    if (mmePools.length > 0 && listMmes.some(mme => !mmePools.some(pool => sameName(pool, mme)))) {
+      issues.push('mme-pool-mismatch');
+    }
+
+    return {
+      location,
+      tac,
+      lacs2g: lacsOf('2g'),
+      lacs3g: lacsOf('3g'),
+      lacsOther: lacsOf(null),
+      sgsnMscs,
+      hasTrackingArea: tas.length > 0,
+      mmePools,
+      csfbLacs,
+      csfbMscs,
+      issues,
+    };
+  });
+
+  rows.sort((a, b) => collator.compare(a.location, b.location) || collator.compare(a.tac, b.tac));
+  const issueCounts = Object.fromEntries(CORRELATION_ISSUES.map(issue => [issue, 0])) as Record<CorrelationIssue, number>;
+  rows.forEach(row => row.issues.forEach(issue => issueCounts[issue]++));
+  return { rows, issueCounts };
+}
+
+export function correlationToRecords(rows: CorrelationRow[]): ParsedRecord[] {
+  return rows.map(row => ({
+    location: row.location,
+    tac: row.tac,
+    lacs2g: row.lacs2g.join(' '),
+    lacs3g: row.lacs3g.join(' '),
+    lacsOther: row.lacsOther.join(' '),
+    ta4g: row.hasTrackingArea ? 'yes' : 'no',
+    sgsnMscs: row.sgsnMscs.join(' '),
+    mmePools: row.mmePools.join(' '),
+    csfbLacs: row.csfbLacs.join(' '),
+    csfbMscs: row.csfbMscs.join(' '),
+    issues: row.issues.map(issue => CORRELATION_ISSUE_LABELS[issue]).join('; '),
+  }));
+}
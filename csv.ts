@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ParsedRecord } from './types.ts';
+import type { ColumnDef } from './parsers.ts';
+import { fieldValue, locationAreaParser } from './parsers.ts';
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// RFC 4180: every field is quoted, embedded quotes are doubled, records end with CRLF
+export function escapeCsvValue(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+export function rowsToCsvString(rows: string[][], delimiter: CsvDelimiter = ','): string {
+  return rows.map(row => row.map(escapeCsvValue).join(delimiter)).join('\r\n');
+}
+
+export function recordsToCsvString(records: ParsedRecord[], columns: ColumnDef[], delimiter: CsvDelimiter = ','): string {
+  return rowsToCsvString([
+    columns.map(c => c.header), // header row
+    ...records.map(row => columns.map(c => fieldValue(row, c.key))),
+  ], delimiter);
+}
+
+export function dataToCsvString(data: ExtractedData[], delimiter: CsvDelimiter = ','): string {
+  return recordsToCsvString(data, locationAreaParser.columns, delimiter);
+}
+
+// Picks the delimiter that splits the header line into the most fields
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  return CSV_DELIMITERS.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length ? delimiter : best
+  );
+}
+
+// RFC 4180 parser: handles quoted fields with embedded delimiters, quotes and
+// line breaks. Blank lines are dropped.
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
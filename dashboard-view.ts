@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ExtractedField, ParsedRecord } from './types.ts';
+import { BREAKDOWNS, breakdownToCsvString, compareBreakdowns, computeBreakdown, type BreakdownDefinition } from './dashboard.ts';
+import { createBarChart } from './bar-chart.ts';
+import { createDataGrid } from './data-grid.ts';
+import { locationAreaParser, type ColumnDef } from './parsers.ts';
+import { downloadBlob } from './dom.ts';
+
+export type DashboardSnapshot = {
+  name: string;
+  data: ExtractedData[];
+};
+
+// Longer breakdowns are cut to the largest groups in the chart; the CSV export has them all
+const MAX_CHART_BARS = 25;
+
+function distinctCount(data: ExtractedData[], field: ExtractedField): number {
+  return new Set(data.map(row => row[field]).filter(value => value !== '')).size;
+}
+
+function safeFileName(text: string): string {
+  return text.replace(/[^A-Za-z0-9_-]+/g, '_');
+}
+
+function createTotals(snapshots: DashboardSnapshot[]): HTMLElement {
+  const list = document.createElement('ul');
+  list.className = 'dashboard-totals';
+  snapshots.forEach(({ name, data }) => {
+    const item = document.createElement('li');
+    item.textContent = `${name}: ${data.length.toLocaleString()} rows · ${distinctCount(data, 'lac')} LACs · ` +
+      `${distinctCount(data, 'msc')} MSC/VLRs · ${distinctCount(data, 'tac')} TACs · ${distinctCount(data, 'location')} locations`;
+    list.appendChild(item);
+  });
+  return list;
+}
+
+function createChartCard(definition: BreakdownDefinition, snapshots: DashboardSnapshot[]): HTMLElement {
+  const bucketsPerSnapshot = snapshots.map(snapshot => computeBreakdown(snapshot.data, definition));
+  const rows = compareBreakdowns(bucketsPerSnapshot);
+  const charted = rows.slice(0, MAX_CHART_BARS);
+  const snapshotNames = snapshots.map(snapshot => snapshot.name);
+
+  const card = document.createElement('section');
+  card.className = 'dashboard-card';
+  const drillDown = document.createElement('div');
+  drillDown.className = 'dashboard-drilldown';
+
+  // Rows behind one bar group, from every compared snapshot
+  const showRows = (label: string) => {
+    const columns: ColumnDef[] = snapshots.length > 1
+      ? [{ key: 'snapshot', header: 'SNAPSHOT' }, ...locationAreaParser.columns]
+      : locationAreaParser.columns;
+    const records: ParsedRecord[] = snapshots.flatMap((snapshot, i) => {
+      const bucket = bucketsPerSnapshot[i].find(b => b.label === label);
+      return (bucket?.rowIndexes ?? []).map(index => ({ ...snapshot.data[index], snapshot: snapshot.name }));
+    });
+
+    const heading = document.createElement('h4');
+    heading.textContent = `${definition.title}: ${label} (${records.length} rows)`;
+    const grid = createDataGrid({
+      columns,
+      rows: records,
+      exportFileName: `${definition.id}_${safeFileName(label)}.csv`,
+    });
+    drillDown.replaceChildren(heading, grid.element);
+  };
+
+  const chart = createBarChart({
+    title: definition.title,
+    labels: charted.map(row => row.label),
+    series: snapshotNames.map((name, i) => ({ name, values: charted.map(row => row.counts[i]) })),
+    onSelect: index => showRows(charted[index].label),
+  });
+
+  const chartContainer = document.createElement('div');
+  chartContainer.className = 'dashboard-chart';
+  chartContainer.appendChild(chart.element);
+
+  const actions = document.createElement('div');
+  actions.className = 'dashboard-card-actions';
+  const pngButton = document.createElement('button');
+  pngButton.textContent = 'Export PNG';
+  pngButton.onclick = async () => {
+    try {
+      downloadBlob(await chart.toPngBlob(), `${definition.id}.png`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Could not export the chart.');
+    }
+  };
+  const csvButton = document.createElement('button');
+  csvButton.textContent = 'Export CSV';
+  csvButton.onclick = () => {
+    const csvString = breakdownToCsvString(definition, rows, snapshotNames);
+    downloadBlob(new Blob([csvString], { type: 'text/csv' }), `${definition.id}.csv`);
+  };
+  actions.appendChild(pngButton);
+  actions.appendChild(csvButton);
+
+  card.appendChild(chartContainer);
+  if (rows.length > charted.length) {
+    const note = document.createElement('p');
+    note.className = 'dashboard-note';
+    note.textContent = `Showing the ${charted.length} largest of ${rows.length} groups; the CSV export contains all of them.`;
+    card.appendChild(note);
+  }
+  card.appendChild(actions);
+  card.appendChild(drillDown);
+  return card;
+}
+
+// Aggregated view of one or more snapshots. Snapshots are expected oldest
+// first; with several, each chart shows one bar per snapshot and the CSV
+// export includes the change between the first and the last.
+export function renderDashboard(container: HTMLElement, snapshots: DashboardSnapshot[]) {
+  container.innerHTML = '<h3>Summary Dashboard</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = snapshots.length > 1
+    ? `Comparing ${snapshots.length} snapshots, oldest first. Click a bar to list the rows behind it.`
+    : 'Click a bar to list the rows behind it.';
+  container.appendChild(description);
+  container.appendChild(createTotals(snapshots));
+
+  const charts = document.createElement('div');
+  charts.className = 'dashboard-charts';
+  BREAKDOWNS.forEach(definition => charts.appendChild(createChartCard(definition, snapshots)));
+  container.appendChild(charts);
+}
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ExtractedField } from './types.ts';
+import { rowsToCsvString } from './csv.ts';
+import { locationAreaParser } from './parsers.ts';
+
+export type BreakdownId = 'lacs-per-msc' | 'rat-split' | 'tacs-per-location';
+
+export type BreakdownDefinition = {
+  id: BreakdownId;
+  title: string;
+  groupBy: ExtractedField;
+  // Counts distinct values of this field per group; rows are counted when omitted
+  countDistinct?: ExtractedField;
+  valueLabel: string;
+};
+
+export type BreakdownBucket = {
+  label: string;
+  count: number;
+  // Indexes into the data the bucket was computed from, for drill-down
+  rowIndexes: number[];
+};
+
+// One row per label with a count per compared snapshot
+export type BreakdownComparisonRow = {
+  label: string;
+  counts: number[];
+};
+
+export const BREAKDOWNS: BreakdownDefinition[] = [
+  { id: 'lacs-per-msc', title: 'LACs per MSC/VLR', groupBy: 'msc', countDistinct: 'lac', valueLabel: 'LACs' },
+  { id: 'rat-split', title: 'RAT split', groupBy: 'rat', valueLabel: 'Rows' },
+  { id: 'tacs-per-location', title: 'TACs per location', groupBy: 'location', countDistinct: 'tac', valueLabel: 'TACs' },
+];
+
+export const EMPTY_GROUP_LABEL = '(none)';
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Buckets ordered by count, largest first, then by label
+export function computeBreakdown(data: ExtractedData[], definition: BreakdownDefinition): BreakdownBucket[] {
+  const groups = new Map<string, { rowIndexes: number[]; values: Set<string> }>();
+  data.forEach((row, index) => {
+    const label = row[definition.groupBy] || EMPTY_GROUP_LABEL;
+    let group = groups.get(label);
+    if (!group) {
+      group = { rowIndexes: [], values: new Set() };
+      groups.set(label, group);
+    }
+    group.rowIndexes.push(index);
+    if (definition.countDistinct && row[definition.countDistinct]) {
+      group.values.add(row[definition.countDistinct]);
+    }
+  });
+
+  return [...groups.entries()]
+    .map(([label, group]) => ({
+      label,
+      count: definition.countDistinct ? group.values.size : group.rowIndexes.length,
+      rowIndexes: group.rowIndexes,
+    }))
+    .sort((a, b) => b.count - a.count || collator.compare(a.label, b.label));
+}
+
+// Aligns the buckets of several snapshots by label. Labels are ordered by
+// their count in the last snapshot, so the current state reads top-down.
+export function compareBreakdowns(breakdowns: BreakdownBucket[][]): BreakdownComparisonRow[] {
+  const rows = new Map<string, number[]>();
+  breakdowns.forEach((buckets, snapshotIndex) => {
+    buckets.forEach(bucket => {
+      let counts = rows.get(bucket.label);
+      if (!counts) {
+        counts = new Array(breakdowns.length).fill(0);
+        rows.set(bucket.label, counts);
+      }
+      counts[snapshotIndex] = bucket.count;
+    });
+  });
+
+  const last = breakdowns.length - 1;
+  return [...rows.entries()]
+    .map(([label, counts]) => ({ label, counts }))
+    .sort((a, b) => b.counts[last] - a.counts[last] || collator.compare(a.label, b.label));
+}
+
+// The CHANGE column (last minus first snapshot) is only added when comparing
+export function breakdownToCsvString(definition: BreakdownDefinition, rows: BreakdownComparisonRow[], snapshotNames: string[]): string {
+  const compare = snapshotNames.length > 1;
+  const groupHeader = locationAreaParser.columns.find(c => c.key === definition.groupBy)?.header ?? definition.groupBy;
+  return rowsToCsvString([
+    [groupHeader, ...snapshotNames.map(name => compare ? `${definition.valueLabel.toUpperCase()} (${name})` : definition.valueLabel.toUpperCase()),
+      ...(compare ? ['CHANGE'] : [])],
+    ...rows.map(row => [
+      row.label,
+      ...row.counts.map(String),
+      ...(compare ? [String(row.counts[row.counts.length - 1] - row.counts[0])] : []),
+    ]),
+  ]);
+}
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParsedRecord } from './types.ts';
+import { fieldValue, type ColumnDef } from './parsers.ts';
+import { recordsToCsvString } from './csv.ts';
+import { downloadBlob } from './dom.ts';
+
+export type DataGridOptions = {
+  columns: ColumnDef[];
+  rows: ParsedRecord[];
+  // File name used by "Export current view"
+  exportFileName: string;
+};
+
+export type DataGrid = {
+  element: HTMLElement;
+  // Marks rows (by index into `rows`) and scrolls the first one into view
+  highlightRows: (rowIndexes: number[]) => void;
+  // Adds rows at the end, e.g. while a dump is still being parsed
+  appendRows: (newRows: ParsedRecord[]) => void;
+};
+
+type SortState = {
+  key: string;
+  direction: 1 | -1;
+} | null;
+
+const ROW_HEIGHT = 36;
+const MAX_VISIBLE_ROWS = 12;
+// Rows rendered above and below the viewport to avoid flicker while scrolling
+const OVERSCAN_ROWS = 8;
+const FILTER_DEBOUNCE_MS = 150;
+// Browsers cap element heights (Firefox at about 17.9 million pixels), so a
+// larger scroll range is compressed into this and rows are offset to match
+const MAX_SPACER_HEIGHT = 8000000;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Column filter syntax: "=VALUE" exact match, "/pattern/" regular expression,
+// anything else is a case-insensitive substring match.
+export function createCellMatcher(filter: string): ((value: string) => boolean) | null {
+  const trimmed = filter.trim();
+  if (trimmed === '') {
+    return null;
+  }
+  if (trimmed.startsWith('=')) {
+    const expected = trimmed.slice(1).trim().toLowerCase();
+    return value => value.toLowerCase() === expected;
+  }
+  const regexMatch = trimmed.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexMatch) {
+    try {
+      const regex = new RegExp(regexMatch[1], regexMatch[2].includes('i') ? 'i' : '');
+      return value => regex.test(value);
+    } catch {
+      // Incomplete pattern while typing; fall back to substring matching
+    }
+  }
+  const needle = trimmed.toLowerCase();
+  return value => value.toLowerCase().includes(needle);
+}
+
+// Sortable, filterable grid that only renders the rows scrolled into view,
+// so it stays responsive with 100k+ rows.
+export function createDataGrid({ columns, rows, exportFileName }: DataGridOptions): DataGrid {
+  const columnFilters = new Map<string, string>();
+  let searchText = '';
+  let sort: SortState = null;
+  let viewIndexes: number[] = [];
+  let highlighted = new Set<number>();
+  // Content pixels per pixel of scrollbar travel; above 1 once the spacer is capped
+  let scrollScale = 1;
+
+  const element = document.createElement('div');
+  element.className = 'data-grid';
+  element.style.setProperty('--data-grid-columns', String(columns.length));
+
+  // Toolbar: search, row count and export
+  const toolbar = document.createElement('div');
+  toolbar.className = 'data-grid-toolbar';
+  const searchInput = document.createElement('input');
+  searchInput.type = 'search';
+  searchInput.placeholder = 'Search all columns…';
+  searchInput.setAttribute('aria-label', 'Search all columns');
+  const rowCount = document.createElement('span');
+  rowCount.className = 'data-grid-count';
+  const exportButton = document.createElement('button');
+  exportButton.type = 'button';
+  exportButton.className = 'data-grid-export';
+  exportButton.textContent = 'Export current view';
+  toolbar.appendChild(searchInput);
+  toolbar.appendChild(rowCount);
+  toolbar.appendChild(exportButton);
+
+  // Header with sort buttons and a filter input per column
+  const header = document.createElement('div');
+  header.className = 'data-grid-header';
+  header.setAttribute('role', 'row');
+  const sortButtons: HTMLButtonElement[] = [];
+  columns.forEach(column => {
+    const cell = document.createElement('div');
+    cell.className = 'data-grid-header-cell';
+    cell.setAttribute('role', 'columnheader');
+
+    const sortButton = document.createElement('button');
+    sortButton.type = 'button';
+    sortButton.className = 'data-grid-sort';
+    sortButton.textContent = column.header;
+    sortButton.onclick = () => {
+      if (sort?.key !== column.key) {
+        sort = { key: column.key, direction: 1 };
+      } else if (sort.direction === 1) {
+        sort = { key: column.key, direction: -1 };
+      } else {
+        sort = null;
+      }
+      applyView();
+    };
+    sortButtons.push(sortButton);
+
+    const filterInput = document.createElement('input');
+    filterInput.type = 'text';
+    filterInput.className = 'data-grid-filter';
+    filterInput.placeholder = 'Filter';
+    filterInput.title = 'Text to match, "=VALUE" for an exact match or "/pattern/" for a regular expression';
+    filterInput.setAttribute('aria-label', `Filter ${column.header}`);
+    filterInput.addEventListener('input', () => {
+      columnFilters.set(column.key, filterInput.value);
+      scheduleApplyView();
+    });
+
+    cell.appendChild(sortButton);
+    cell.appendChild(filterInput);
+    header.appendChild(cell);
+  });
+
+  // Virtualised body: a tall spacer provides the scroll range, rows are
+  // absolutely positioned inside it
+  const viewport = document.createElement('div');
+  viewport.className = 'data-grid-viewport';
+  viewport.setAttribute('role', 'rowgroup');
+  const spacer = document.createElement('div');
+  spacer.className = 'data-grid-spacer';
+  viewport.appendChild(spacer);
+
+  element.appendChild(toolbar);
+  element.appendChild(header);
+  element.appendChild(viewport);
+
+  const renderVisibleRows = () => {
+    const contentTop = viewport.scrollTop * scrollScale;
+    const first = Math.max(Math.floor(contentTop / ROW_HEIGHT) - OVERSCAN_ROWS, 0);
+    const last = Math.min(first + MAX_VISIBLE_ROWS + OVERSCAN_ROWS * 2, viewIndexes.length);
+
+    const fragment = document.createDocumentFragment();
+    for (let position = first; position < last; position++) {
+      const rowIndex = viewIndexes[position];
+      const row = document.createElement('div');
+      row.className = 'data-grid-row';
+      row.setAttribute('role', 'row');
+      row.dataset.rowIndex = String(rowIndex);
+      row.style.transform = `translateY(${position * ROW_HEIGHT - contentTop + viewport.scrollTop}px)`;
+      if (highlighted.has(rowIndex)) {
+        row.classList.add('finding-highlight');
+      }
+      columns.forEach(column => {
+        const cell = document.createElement('div');
+        cell.className = 'data-grid-cell';
+        cell.setAttribute('role', 'cell');
+        cell.textContent = fieldValue(rows[rowIndex], column.key);
+        row.appendChild(cell);
+      });
+      fragment.appendChild(row);
+    }
+    spacer.replaceChildren(fragment);
+  };
+
+  // Whether a row passes the search and column filters
+  const createRowMatcher = () => {
+    const search = searchText.trim().toLowerCase();
+    const matchers = columns
+      .map(column => ({ key: column.key, matches: createCellMatcher(columnFilters.get(column.key) ?? '') }))
+      .filter((entry): entry is { key: string; matches: (value: string) => boolean } => entry.matches !== null);
+    return (row: ParsedRecord) =>
+      (!search || columns.some(column => fieldValue(row, column.key).toLowerCase().includes(search)))
+      && matchers.every(({ key, matches }) => matches(fieldValue(row, key)));
+  };
+
+  const updateSize = () => {
+    rowCount.textContent = viewIndexes.length === rows.length
+      ? `${rows.length.toLocaleString()} rows`
+      : `Showing ${viewIndexes.length.toLocaleString()} of ${rows.length.toLocaleString()} rows`;
+    const contentHeight = viewIndexes.length * ROW_HEIGHT;
+    const spacerHeight = Math.min(contentHeight, MAX_SPACER_HEIGHT);
+    const viewportHeight = Math.min(Math.max(viewIndexes.length, 1), MAX_VISIBLE_ROWS) * ROW_HEIGHT;
+    scrollScale = spacerHeight > viewportHeight ? (contentHeight - viewportHeight) / (spacerHeight - viewportHeight) : 1;
+    spacer.style.height = `${spacerHeight}px`;
+    viewport.style.height = `${viewportHeight}px`;
+  };
+
+  const applyView = () => {
+    const matches = createRowMatcher();
+    viewIndexes = [];
+    rows.forEach((row, index) => {
+      if (matches(row)) {
+        viewIndexes.push(index);
+      }
+    });
+
+    if (sort) {
+      const { key, direction } = sort;
+      viewIndexes.sort((a, b) => direction * collator.compare(fieldValue(rows[a], key), fieldValue(rows[b], key)) || a - b);
+    }
+
+    const activeSort = sort;
+    sortButtons.forEach((button, i) => {
+      const direction = activeSort?.key === columns[i].key ? activeSort.direction : 0;
+      button.dataset.sort = direction === 1 ? 'asc' : direction === -1 ? 'desc' : '';
+      button.parentElement?.setAttribute('aria-sort', direction === 1 ? 'ascending' : direction === -1 ? 'descending' : 'none');
+    });
+    updateSize();
+    renderVisibleRows();
+  };
+
+  let filterTimer: ReturnType<typeof setTimeout> | undefined;
+  const scheduleApplyView = () => {
+    clearTimeout(filterTimer);
+    filterTimer = setTimeout(applyView, FILTER_DEBOUNCE_MS);
+  };
+
+  searchInput.addEventListener('input', () => {
+    searchText = searchInput.value;
+    scheduleApplyView();
+  });
+
+  let scrollFrame = 0;
+  viewport.addEventListener('scroll', () => {
+    cancelAnimationFrame(scrollFrame);
+    scrollFrame = requestAnimationFrame(renderVisibleRows);
+  });
+
+  exportButton.onclick = () => {
+    const csvString = recordsToCsvString(viewIndexes.map(index => rows[index]), columns);
+    downloadBlob(new Blob([csvString], { type: 'text/csv' }), exportFileName);
+  };
+
+  applyView();
+
+  return {
+    element,
+    highlightRows: rowIndexes => {
+      highlighted = new Set(rowIndexes);
+      let position = viewIndexes.findIndex(index => highlighted.has(index));
+      if (position < 0 && rowIndexes.length > 0) {
+        // The rows are filtered out; clear the filters so they can be shown
+        searchInput.value = '';
+        searchText = '';
+        columnFilters.clear();
+        header.querySelectorAll<HTMLInputElement>('.data-grid-filter').forEach(input => { input.value = ''; });
+        applyView();
+        position = viewIndexes.findIndex(index => highlighted.has(index));
+      }
+      if (position >= 0) {
+        viewport.scrollTop = Math.max(position * ROW_HEIGHT - ROW_HEIGHT, 0) / scrollScale;
+      }
+      renderVisibleRows();
+      element.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    },
+    appendRows: newRows => {
+      const start = rows.length;
+      newRows.forEach(row => rows.push(row));
+      if (sort) {
+        // New rows have to be merged into the order; re-sort once they stop arriving
+        scheduleApplyView();
+        return;
+      }
+      const matches = createRowMatcher();
+      newRows.forEach((row, i) => {
+        if (matches(row)) {
+          viewIndexes.push(start + i);
+        }
+      });
+      updateSize();
+      renderVisibleRows();
+    },
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParseDiagnostics } from './types.ts';
+
+// Reasons ordered by how many lines they rejected, most frequent first
+export function sortedReasonCounts(diagnostics: ParseDiagnostics): [string, number][] {
+  return Object.entries(diagnostics.reasonCounts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+// Tab-separated reject file: one skipped line per row with its line number and reason
+export function diagnosticsToRejectFile(diagnostics: ParseDiagnostics): string {
+  const rows = [
+    'LINE\tREASON\tCONTENT',
+    ...diagnostics.skippedLines.map(skipped =>
+      `${skipped.lineNumber}\t${skipped.reason}\t${skipped.line.replace(/\t/g, ' ')}`
+    )
+  ];
+  return rows.join('\n');
+}
@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, HistoryEntry } from './types.ts';
+import { DEFAULT_DIFF_KEY_FIELDS, DIFF_STATUSES, diffRecords, diffToCsvString, type DiffStatus, type RecordDiff } from './diff.ts';
+import { fieldValue, locationAreaParser, type ColumnDef } from './parsers.ts';
+import { DEFAULT_COLUMN_SETTINGS, withAttributeColumns, type ColumnSettings } from './column-profiles.ts';
+import { createCheckbox, downloadBlob } from './dom.ts';
+import { generateMmlScript, MmlDuplicateKeyError, verifyRoundTrip, type MmlScript } from './mml.ts';
+
+const DEFAULT_VISIBLE_STATUSES: DiffStatus[] = ['added', 'removed', 'modified'];
+
+function snapshotLabel(entry: HistoryEntry): string {
+  return `${new Date(entry.timestamp).toLocaleString()} (${entry.data.length} rows)`;
+}
+
+// Script that brings the node from the current snapshot back to the baseline
+function renderMmlScript(baseline: HistoryEntry, current: HistoryEntry, container: HTMLElement) {
+  container.innerHTML = '<h4>MML Change Script</h4>';
+  let generated: MmlScript;
+  try {
+    generated = generateMmlScript(current.data, baseline.data);
+  } catch (error) {
+    if (!(error instanceof MmlDuplicateKeyError)) {
+      throw error;
+    }
+    const message = document.createElement('p');
+    message.className = 'mml-roundtrip-failed';
+    message.textContent = error.message;
+    container.appendChild(message);
+    return;
+  }
+  const { script, counts } = generated;
+  const roundTrip = verifyRoundTrip(current.data, baseline.data, script);
+
+  const status = document.createElement('p');
+  status.className = roundTrip.ok ? 'mml-roundtrip-ok' : 'mml-roundtrip-failed';
+  status.textContent = roundTrip.ok
+    ? `Round-trip check passed: replaying ${counts.delete} delete, ${counts.modify} modify and ${counts.create} create commands on the current snapshot reproduces the baseline.`
+    : `Round-trip check failed: replaying the script leaves ${roundTrip.mismatches.length} records different from the baseline (${roundTrip.mismatches.map(m => m.key).slice(0, 10).join(', ')}). Review the script before use.`;
+  container.appendChild(status);
+
+  const downloadButton = document.createElement('button');
+  downloadButton.textContent = 'Download Script';
+  downloadButton.onclick = () => downloadBlob(new Blob([script], { type: 'text/plain' }), 'change_script.mml.txt');
+  container.appendChild(downloadButton);
+
+  const pre = document.createElement('pre');
+  pre.className = 'mml-script';
+  pre.textContent = script;
+  container.appendChild(pre);
+}
+
+// With `accepted`, each row gets a checkbox that adds or removes its entry
+export function renderDiffTable(
+  entries: RecordDiff<ExtractedData>[],
+  columns: ColumnDef[],
+  container: HTMLElement,
+  accepted?: Set<RecordDiff<ExtractedData>>
+) {
+  container.innerHTML = '';
+
+  if (entries.length === 0) {
+    container.textContent = 'No records match the selected filters.';
+    return;
+  }
+
+  const table = document.createElement('table');
+  table.className = 'diff-table';
+  const thead = table.createTHead();
+  const groupRow = thead.insertRow();
+  const leadingHeaders = accepted ? ['ACCEPT', 'KEY', 'STATUS'] : ['KEY', 'STATUS'];
+  [['', leadingHeaders.length], ['Baseline', columns.length], ['Current', columns.length]].forEach(([text, span]) => {
+    const th = document.createElement('th');
+    th.textContent = String(text);
+    th.colSpan = Number(span);
+    groupRow.appendChild(th);
+  });
+  const headerRow = thead.insertRow();
+  [...leadingHeaders, ...columns.map(c => c.header), ...columns.map(c => c.header)].forEach(headerText => {
+    const th = document.createElement('th');
+    th.textContent = headerText;
+    headerRow.appendChild(th);
+  });
+
+  const tbody = table.createTBody();
+  entries.forEach(entry => {
+    const row = tbody.insertRow();
+    row.className = `diff-${entry.status}`;
+    if (accepted) {
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = accepted.has(entry);
+      checkbox.setAttribute('aria-label', `Accept change to ${entry.key}`);
+      checkbox.onchange = () => {
+        if (checkbox.checked) {
+          accepted.add(entry);
+        } else {
+          accepted.delete(entry);
+        }
+      };
+      row.insertCell().appendChild(checkbox);
+    }
+    row.insertCell().textContent = entry.key;
+    row.insertCell().textContent = entry.status;
+    [entry.before, entry.after].forEach(record => {
+      columns.forEach(column => {
+        const cell = row.insertCell();
+        cell.textContent = record ? fieldValue(record, column.key) : '';
+        if (entry.changedFields.includes(column.key)) {
+          cell.classList.add('diff-changed-field');
+        }
+      });
+    });
+  });
+
+  const tableContainer = document.createElement('div');
+  tableContainer.className = 'diff-table-container';
+  tableContainer.appendChild(table);
+  container.appendChild(tableContainer);
+}
+
+// Keyed, field-level comparison of two history snapshots. The older entry is
+// treated as the baseline. Attribute columns and the initial key come from
+// the column settings.
+export function renderDiffView(container: HTMLElement, first: HistoryEntry, second: HistoryEntry, settings: ColumnSettings = DEFAULT_COLUMN_SETTINGS) {
+  const [baseline, current] = first.timestamp <= second.timestamp ? [first, second] : [second, first];
+  const columns = withAttributeColumns(locationAreaParser.columns, settings.attributes, [baseline.data, current.data]);
+  const fields = columns.map(c => c.key);
+  const headers = Object.fromEntries(columns.map(c => [c.key, c.header]));
+  const initialKeys = settings.keyFields.filter(field => fields.includes(field));
+  const keyFields = new Set(initialKeys.length > 0 ? initialKeys : DEFAULT_DIFF_KEY_FIELDS);
+  const visibleStatuses = new Set(DEFAULT_VISIBLE_STATUSES);
+
+  container.innerHTML = '<h3>Snapshot Comparison</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = `Baseline: ${snapshotLabel(baseline)} → Current: ${snapshotLabel(current)}`;
+  container.appendChild(description);
+
+  const keyControls = document.createElement('fieldset');
+  keyControls.className = 'diff-controls';
+  keyControls.innerHTML = '<legend>Match records by</legend>';
+  const statusControls = document.createElement('fieldset');
+  statusControls.className = 'diff-controls';
+  statusControls.innerHTML = '<legend>Show</legend>';
+
+  const exportButtons = document.createElement('div');
+  exportButtons.className = 'diff-export-buttons';
+  const exportCsvButton = document.createElement('button');
+  exportCsvButton.textContent = 'Export CSV';
+  const exportJsonButton = document.createElement('button');
+  exportJsonButton.textContent = 'Export JSON';
+  const mmlButton = document.createElement('button');
+  mmlButton.textContent = 'Generate MML Script';
+  exportButtons.appendChild(exportCsvButton);
+  exportButtons.appendChild(exportJsonButton);
+  exportButtons.appendChild(mmlButton);
+
+  const scriptArea = document.createElement('div');
+  scriptArea.className = 'mml-script-area';
+  mmlButton.onclick = () => renderMmlScript(baseline, current, scriptArea);
+
+  const tableArea = document.createElement('div');
+
+  const render = () => {
+    const diff = diffRecords(baseline.data, current.data, fields.filter(f => keyFields.has(f)), fields);
+    const visibleEntries = diff.entries.filter(entry => visibleStatuses.has(entry.status));
+
+    statusControls.querySelectorAll('label').forEach(label => label.remove());
+    DIFF_STATUSES.forEach(status => {
+      statusControls.appendChild(createCheckbox(`${status} (${diff.counts[status]})`, visibleStatuses.has(status), checkbox => {
+        if (checkbox.checked) {
+          visibleStatuses.add(status);
+        } else {
+          visibleStatuses.delete(status);
+        }
+        render();
+      }));
+    });
+
+    exportCsvButton.onclick = () => {
+      const csvString = diffToCsvString(visibleEntries, fields, headers);
+      downloadBlob(new Blob([csvString], { type: 'text/csv' }), 'snapshot_diff.csv');
+    };
+    exportJsonButton.onclick = () => {
+      const jsonString = JSON.stringify({
+        baseline: baseline.timestamp,
+        current: current.timestamp,
+        keyFields: diff.keyFields,
+        counts: diff.counts,
+        entries: visibleEntries,
+      }, null, 2);
+      downloadBlob(new Blob([jsonString], { type: 'application/json' }), 'snapshot_diff.json');
+    };
+
+    renderDiffTable(visibleEntries, columns, tableArea);
+  };
+
+  columns.forEach(column => {
+    keyControls.appendChild(createCheckbox(column.header, keyFields.has(column.key), checkbox => {
+      if (checkbox.checked) {
+        keyFields.add(column.key);
+      } else if (keyFields.size > 1) {
+        keyFields.delete(column.key);
+      } else {
+        // At least one key field is required
+        checkbox.checked = true;
+        return;
+      }
+      render();
+    }));
+  });
+
+  container.appendChild(keyControls);
+  container.appendChild(statusControls);
+  container.appendChild(exportButtons);
+  container.appendChild(scriptArea);
+  container.appendChild(tableArea);
+  render();
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParsedRecord } from './types.ts';
+import { rowsToCsvString } from './csv.ts';
+import { fieldValue } from './parsers.ts';
+
+export type DiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export type RecordDiff<T extends ParsedRecord = ParsedRecord> = {
+  key: string;
+  status: DiffStatus;
+  before: T | null;
+  after: T | null;
+  changedFields: string[];
+};
+
+export type SnapshotDiff<T extends ParsedRecord = ParsedRecord> = {
+  keyFields: string[];
+  fields: string[];
+  entries: RecordDiff<T>[];
+  counts: Record<DiffStatus, number>;
+};
+
+export const DIFF_STATUSES: DiffStatus[] = ['added', 'removed', 'modified', 'unchanged'];
+// Location areas are identified by LAC and RAT unless the user picks other fields
+export const DEFAULT_DIFF_KEY_FIELDS = ['lac', 'rat'];
+
+export function recordKey(record: ParsedRecord, keyFields: string[]): string {
+  return keyFields.map(field => fieldValue(record, field)).join(' / ');
+}
+
+function groupByKey<T extends ParsedRecord>(records: T[], keyFields: string[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  records.forEach(record => {
+    const key = recordKey(record, keyFields);
+    const group = groups.get(key);
+    if (group) {
+      group.push(record);
+    } else {
+      groups.set(key, [record]);
+    }
+  });
+  return groups;
+}
+
+function changedFieldsOf(before: ParsedRecord, after: ParsedRecord, fields: string[]): string[] {
+  return fields.filter(field => fieldValue(before, field) !== fieldValue(after, field));
+}
+
+// Keyed comparison of two snapshots. Records sharing a key are paired up:
+// identical records first, then the rest in order as modifications, and any
+// leftovers on either side become added or removed.
+export function diffRecords<T extends ParsedRecord>(
+  before: T[],
+  after: T[],
+  keyFields: string[],
+  fields: string[]
+): SnapshotDiff<T> {
+  const beforeGroups = groupByKey(before, keyFields);
+  const afterGroups = groupByKey(after, keyFields);
+  const keys = [...new Set([...beforeGroups.keys(), ...afterGroups.keys()])].sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+  const entries: RecordDiff<T>[] = [];
+  keys.forEach(key => {
+    const remainingBefore = [...(beforeGroups.get(key) ?? [])];
+    const remainingAfter: T[] = [];
+
+    (afterGroups.get(key) ?? []).forEach(record => {
+      const matchIndex = remainingBefore.findIndex(candidate => changedFieldsOf(candidate, record, fields).length === 0);
+      if (matchIndex >= 0) {
+        entries.push({ key, status: 'unchanged', before: remainingBefore[matchIndex], after: record, changedFields: [] });
+        remainingBefore.splice(matchIndex, 1);
+      } else {
+        remainingAfter.push(record);
+      }
+    });
+
+    const pairCount = Math.min(remainingBefore.length, remainingAfter.length);
+    for (let i = 0; i < pairCount; i++) {
+      entries.push({
+        key,
+        status: 'modified',
+        before: remainingBefore[i],
+        after: remainingAfter[i],
+        changedFields: changedFieldsOf(remainingBefore[i], remainingAfter[i], fields),
+      });
+    }
+    remainingBefore.slice(pairCount).forEach(record => {
+      entries.push({ key, status: 'removed', before: record, after: null, changedFields: [] });
+    });
+    remainingAfter.slice(pairCount).forEach(record => {
+      entries.push({ key, status: 'added', before: null, after: record, changedFields: [] });
+    });
+  });
+
+  const counts: Record<DiffStatus, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  entries.forEach(entry => counts[entry.status]++);
+
+  return { keyFields, fields, entries, counts };
+}
+
+export function diffToCsvString(entries: RecordDiff[], fields: string[], headers: Record<string, string>): string {
+  return rowsToCsvString([
+    ['KEY', 'STATUS', 'CHANGED FIELDS',
+      ...fields.map(f => `BEFORE ${headers[f] ?? f}`),
+      ...fields.map(f => `AFTER ${headers[f] ?? f}`)],
+    ...entries.map(entry => [
+      entry.key,
+      entry.status,
+      entry.changedFields.map(f => headers[f] ?? f).join(' '),
+      ...fields.map(f => entry.before ? fieldValue(entry.before, f) : ''),
+      ...fields.map(f => entry.after ? fieldValue(entry.after, f) : ''),
+    ])
+  ]);
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParsedRecord } from './types.ts';
+import { fieldValue, type ColumnDef } from './parsers.ts';
+import { recordsToCsvString, type CsvDelimiter } from './csv.ts';
+import { createZipArchive } from './zip.ts';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export type ExportSettings = {
+  format: ExportFormat;
+  delimiter: CsvDelimiter;
+  // e.g. "{node}_{type}_{date}"; see applyFileNameTemplate
+  fileNameTemplate: string;
+};
+
+export type FileNameContext = {
+  type: string;
+  node?: string;
+  timestamp?: number;
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'csv',
+  delimiter: ',',
+  fileNameTemplate: 'extracted_{type}',
+};
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  xlsx: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  ndjson: { extension: 'ndjson', mimeType: 'application/x-ndjson' },
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+// Spreadsheet column letters: 0 -> A, 25 -> Z, 26 -> AA
+function columnLetter(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Minimal single-sheet Office Open XML workbook using inline strings, so no
+// shared-string table or styles part is needed
+export function recordsToXlsx(records: ParsedRecord[], columns: ColumnDef[], sheetName: string = 'Data'): Uint8Array {
+  const rows = [columns.map(c => c.header), ...records.map(record => columns.map(c => fieldValue(record, c.key)))];
+  const sheetRows = rows.map((row, r) =>
+    `<row r="${r + 1}">${row.map((value, c) =>
+      `<c r="${columnLetter(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+    ).join('')}</row>`
+  ).join('');
+
+  return createZipArchive([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        `<sheetData>${sheetRows}</sheetData>` +
+        '</worksheet>',
+    },
+  ]);
+}
+
+// Only the listed columns are exported, in column order
+function pickColumns(records: ParsedRecord[], columns: ColumnDef[]): ParsedRecord[] {
+  return records.map(record => Object.fromEntries(columns.map(c => [c.key, fieldValue(record, c.key)])));
+}
+
+export function exportRecords(records: ParsedRecord[], columns: ColumnDef[], settings: ExportSettings, sheetName?: string): Blob {
+  const { mimeType } = FORMAT_DETAILS[settings.format];
+  switch (settings.format) {
+    case 'xlsx':
+      return new Blob([recordsToXlsx(records, columns, sheetName)], { type: mimeType });
+    case 'json':
+      return new Blob([JSON.stringify(pickColumns(records, columns), null, 2)], { type: mimeType });
+    case 'ndjson':
+      return new Blob([pickColumns(records, columns).map(record => JSON.stringify(record)).join('\n')], { type: mimeType });
+    default:
+      return new Blob([recordsToCsvString(records, columns, settings.delimiter)], { type: mimeType });
+  }
+}
+
+// Expands {type}, {node}, {date} (YYYY-MM-DD), {time} (HHMMSS) and
+// {timestamp} and appends the format's extension
+export function applyFileNameTemplate(template: string, format: ExportFormat, context: FileNameContext): string {
+  const date = new Date(context.timestamp ?? Date.now());
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const values: Record<string, string> = {
+    type: context.type,
+    node: context.node ?? 'unknown',
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    timestamp: String(date.getTime()),
+  };
+  const baseName = (template.trim() || DEFAULT_EXPORT_SETTINGS.fileNameTemplate)
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder)
+    .replace(/[\\/:*?"<>|]/g, '_');
+  return `${baseName}.${FORMAT_DETAILS[format].extension}`;
+}
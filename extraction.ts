@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// DOM-free extraction pipeline shared by the parser worker (web UI) and the
+// command-line tool, so both produce identical results from the same dump.
+import type { ExtractedData, ParseDiagnostics, ParsedRecord, ValidationFinding } from './types.ts';
+import { COMMAND_PARSERS, createTextParser, locationAreaParser, type ParseResult, type TextParser } from './parsers.ts';
+import { validateExtraction } from './validation.ts';
+
+export type ExtractionResult = {
+  data: ExtractedData[];
+  // Records of the other command parsers, keyed by parser id; empty sets are left out
+  records: Record<string, ParsedRecord[]>;
+  diagnostics: ParseDiagnostics;
+  findings: ValidationFinding[];
+};
+
+export type DumpStreamHooks = {
+  // Called for every line with what the parser made of it
+  onLine?: (parsed: ReturnType<TextParser['parseLine']>) => void;
+  // Called after each decoded chunk, e.g. to report progress
+  onChunk?: () => void;
+};
+
+export function isGzipHeader(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1F && bytes[1] === 0x8B;
+}
+
+// Decodes a (possibly gzip-compressed) byte stream and feeds it line by line
+// to the command parsers
+export async function parseDumpStream(
+  byteStream: ReadableStream<Uint8Array>,
+  gzip: boolean,
+  hooks: DumpStreamHooks = {}
+): Promise<ParseResult> {
+  const parser = createTextParser();
+  const decompressed = gzip ? byteStream.pipeThrough(new DecompressionStream('gzip')) : byteStream;
+  const reader = decompressed.pipeThrough(new TextDecoderStream()).getReader();
+
+  const handleLine = (line: string) => {
+    const parsed = parser.parseLine(line.replace(/\r$/, ''));
+    hooks.onLine?.(parsed);
+  };
+
+  // Text after the last newline of a chunk belongs to the next chunk's first line
+  let remainder = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    const lines = (remainder + value).split('\n');
+    remainder = lines.pop() ?? '';
+    lines.forEach(handleLine);
+    hooks.onChunk?.();
+  }
+  if (remainder !== '') {
+    handleLine(remainder);
+  }
+  return parser.result();
+}
+
+// Splits parser output into the location area rows and the other record
+// sets, and runs the consistency checks on the location areas
+export function toExtractionResult({ records, diagnostics }: ParseResult): ExtractionResult {
+  const extractedData = records[locationAreaParser.id] as ExtractedData[];
+  const otherRecords: Record<string, ParsedRecord[]> = {};
+  COMMAND_PARSERS.forEach(parser => {
+    if (parser !== locationAreaParser && records[parser.id].length > 0) {
+      otherRecords[parser.id] = records[parser.id];
+    }
+  });
+
+  return {
+    data: extractedData,
+    records: otherRecords,
+    diagnostics,
+    findings: validateExtraction(extractedData),
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const ACCEPTED_DUMP_EXTENSIONS = ['.txt', '.log', '.cfg'];
+const GZIP_EXTENSION = '.gz';
+
+// Accepts plain-text dumps by MIME type or extension, optionally gzip-compressed
+export function isSupportedDumpFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  const baseName = name.endsWith(GZIP_EXTENSION) ? name.slice(0, -GZIP_EXTENSION.length) : name;
+  return file.type === 'text/plain' || ACCEPTED_DUMP_EXTENSIONS.some(ext => baseName.endsWith(ext));
+}
+
+// Node name from a dump file name, e.g. "SGSN-NBO-01_2025-06-01.log.gz" -> "SGSN-NBO-01"
+export function deriveNodeName(fileName: string): string {
+  const stem = fileName.replace(/\.gz$/i, '').replace(/\.[^.]+$/, '');
+  return stem.split('_')[0] || stem;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Baseline, HistoryEntry, PlanInventory } from './types.ts';
+
+const DB_NAME = 'sgsn-mme-analyzer';
+const DB_VERSION = 3;
+const HISTORY_STORE = 'history';
+// Reference plan inventories, added in version 2
+const PLAN_STORE = 'plans';
+// Node baselines, added in version 3
+const BASELINE_STORE = 'baselines';
+
+export type HistoryEntryChanges = Partial<Pick<HistoryEntry, 'name' | 'tags' | 'notes'>>;
+
+export type StorageUsage = {
+  usage: number;
+  quota: number;
+};
+
+// Thrown when the browser refuses a write because the storage quota is used up
+export class HistoryQuotaError extends Error {
+  constructor() {
+    super('Browser storage is full. Delete older history entries to make room for new extractions.');
+    this.name = 'HistoryQuotaError';
+  }
+}
+
+// Thrown when another open tab of an older version keeps the database from upgrading
+export class HistoryBlockedError extends Error {
+  constructor() {
+    super('Browser storage is being upgraded. Close other tabs of the analyzer and reload this page.');
+    this.name = 'HistoryBlockedError';
+  }
+}
+
+// Reset after a failed open, so the next call tries again
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(isQuotaError(transaction.error) ? new HistoryQuotaError() : transaction.error);
+    transaction.onerror = () => reject(isQuotaError(transaction.error) ? new HistoryQuotaError() : transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'timestamp' });
+        }
+        if (!db.objectStoreNames.contains(PLAN_STORE)) {
+          db.createObjectStore(PLAN_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BASELINE_STORE)) {
+          db.createObjectStore(BASELINE_STORE, { keyPath: 'id' });
+        }
+      };
+      let rejected = false;
+      request.onsuccess = () => {
+        const db = request.result;
+        // The open was reported blocked and has been given up; don't hold
+        // this late connection open, it would block the next upgrade
+        if (rejected) {
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => {
+        rejected = true;
+        databasePromise = null;
+        reject(new HistoryBlockedError());
+      };
+    });
+  }
+  return databasePromise;
+}
+
+async function withStore(mode: IDBTransactionMode, action: (store: IDBObjectStore) => void, storeName: string = HISTORY_STORE): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  action(transaction.objectStore(storeName));
+  return transactionDone(transaction);
+}
+
+// All entries, newest first
+export async function loadHistoryEntries(): Promise<HistoryEntry[]> {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+  const entries = await requestToPromise(store.getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function getHistoryEntry(timestamp: number): Promise<HistoryEntry | undefined> {
+  const db = await openDatabase();
+  const store = db.transaction(HISTORY_STORE, 'readonly').objectStore(HISTORY_STORE);
+  return requestToPromise(store.get(timestamp) as IDBRequest<HistoryEntry | undefined>);
+}
+
+export async function putHistoryEntries(entries: HistoryEntry[]): Promise<void> {
+  try {
+    await withStore('readwrite', store => entries.forEach(entry => store.put(entry)));
+  } catch (error) {
+    throw isQuotaError(error) ? new HistoryQuotaError() : error;
+  }
+}
+
+export async function updateHistoryEntry(timestamp: number, changes: HistoryEntryChanges): Promise<void> {
+  const entry = await getHistoryEntry(timestamp);
+  if (!entry) {
+    throw new Error(`History entry ${timestamp} no longer exists.`);
+  }
+  await putHistoryEntries([{ ...entry, ...changes }]);
+}
+
+export function deleteHistoryEntry(timestamp: number): Promise<void> {
+  return withStore('readwrite', store => store.delete(timestamp));
+}
+
+export function clearHistoryEntries(): Promise<void> {
+  return withStore('readwrite', store => store.clear());
+}
+
+// All plan inventories, most recently imported first
+export async function loadPlanInventories(): Promise<PlanInventory[]> {
+  const db = await openDatabase();
+  const store = db.transaction(PLAN_STORE, 'readonly').objectStore(PLAN_STORE);
+  const plans = await requestToPromise(store.getAll() as IDBRequest<PlanInventory[]>);
+  return plans.sort((a, b) => b.id - a.id);
+}
+
+export async function putPlanInventory(plan: PlanInventory): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.put(plan), PLAN_STORE);
+  } catch (error) {
+    throw isQuotaError(error) ? new HistoryQuotaError() : error;
+  }
+}
+
+export function deletePlanInventory(id: number): Promise<void> {
+  return withStore('readwrite', store => store.delete(id), PLAN_STORE);
+}
+
+// Every version of every node baseline, most recent first
+export async function loadBaselines(): Promise<Baseline[]> {
+  const db = await openDatabase();
+  const store = db.transaction(BASELINE_STORE, 'readonly').objectStore(BASELINE_STORE);
+  const baselines = await requestToPromise(store.getAll() as IDBRequest<Baseline[]>);
+  return baselines.sort((a, b) => b.id - a.id);
+}
+
+export async function putBaseline(baseline: Baseline): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.put(baseline), BASELINE_STORE);
+  } catch (error) {
+    throw isQuotaError(error) ? new HistoryQuotaError() : error;
+  }
+}
+
+export function deleteBaseline(id: number): Promise<void> {
+  return withStore('readwrite', store => store.delete(id), BASELINE_STORE);
+}
+
+// Moves history saved by older versions (one JSON array in localStorage) into
+// IndexedDB. The localStorage key is only removed once the copy succeeded; an
+// unreadable value stays where it is and is marked under "<key>Unreadable", so
+// it is not retried on every start and no second copy has to fit in the quota.
+export async function migrateLocalStorageHistory(storageKey: string): Promise<number> {
+  const historyJson = localStorage.getItem(storageKey);
+  const unreadableKey = `${storageKey}Unreadable`;
+  if (!historyJson || localStorage.getItem(unreadableKey) !== null) {
+    return 0;
+  }
+  let entries: HistoryEntry[];
+  try {
+    entries = JSON.parse(historyJson);
+    if (!Array.isArray(entries)) {
+      throw new Error('not a list of history entries');
+    }
+  } catch (error) {
+    console.warn(`Could not read the old history in localStorage; it is left under "${storageKey}".`, error);
+    try {
+      localStorage.setItem(unreadableKey, 'true');
+    } catch {
+      // Storage is full even for the marker; the value is read again next start
+    }
+    return 0;
+  }
+  await putHistoryEntries(entries);
+  localStorage.removeItem(storageKey);
+  return entries.length;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+}
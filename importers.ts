@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ExtractedField } from './types.ts';
+import { parseCsv } from './csv.ts';
+import { locationAreaParser } from './parsers.ts';
+
+export type ImportTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+// Column index in the imported table for each location area field, or null when unmapped
+export type HeaderMapping = Record<ExtractedField, number | null>;
+
+export const IMPORT_FIELDS = locationAreaParser.columns as { key: ExtractedField; header: string }[];
+
+// Header spellings seen in older spreadsheets and planning inventories,
+// compared after normalisation
+const HEADER_ALIASES: Record<ExtractedField, string[]> = {
+  lac: ['lac', 'locationareacode', 'la'],
+  rat: ['rat', 'at', 'accesstype', 'radioaccesstechnology', 'technology'],
+  location: ['location', 'loc', 'site', 'gan', 'region', 'locationname', 'sitename'],
+  tac: ['tac', 'trackingareacode'],
+  msc: ['mscvlr', 'msc', 'vlr', 'mscname', 'expectedmsc', 'plannedmsc', 'targetmsc'],
+};
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function objectsToTable(objects: Record<string, unknown>[]): ImportTable {
+  const headers = [...new Set(objects.flatMap(object => Object.keys(object)))];
+  return {
+    headers,
+    rows: objects.map(object => headers.map(header => object[header] === undefined || object[header] === null ? '' : String(object[header]))),
+  };
+}
+
+function parseJsonImport(text: string): ImportTable {
+  const trimmed = text.trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    // Not a single JSON document; treat it as NDJSON (one object per line)
+    parsed = trimmed.split(/\r?\n/).filter(line => line.trim() !== '').map(line => JSON.parse(line));
+  }
+
+  // Accept a bare array of rows or an object wrapping one (e.g. a history entry's `data`)
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { data?: unknown })?.data;
+  if (!Array.isArray(rows) || rows.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error('The JSON file must contain an array of row objects.');
+  }
+  return objectsToTable(rows as Record<string, unknown>[]);
+}
+
+export function parseImportText(fileName: string, text: string): ImportTable {
+  const isJson = /\.(nd)?json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  if (isJson) {
+    return parseJsonImport(text);
+  }
+  const [headers = [], ...rows] = parseCsv(text);
+  return { headers: headers.map(header => header.trim()), rows };
+}
+
+export function guessHeaderMapping(headers: string[]): HeaderMapping {
+  const normalised = headers.map(normaliseHeader);
+  const mapping = {} as HeaderMapping;
+  IMPORT_FIELDS.forEach(({ key }) => {
+    const index = HEADER_ALIASES[key].map(alias => normalised.indexOf(alias)).find(i => i >= 0);
+    mapping[key] = index ?? null;
+  });
+  return mapping;
+}
+
+// Rows with every mapped cell empty are dropped
+export function applyHeaderMapping(table: ImportTable, mapping: HeaderMapping): ExtractedData[] {
+  return table.rows
+    .map(row => {
+      const record = {} as ExtractedData;
+      IMPORT_FIELDS.forEach(({ key }) => {
+        const index = mapping[key];
+        record[key] = index === null ? '' : (row[index] ?? '').trim();
+      });
+      return record;
+    })
+    .filter(record => IMPORT_FIELDS.some(({ key }) => record[key] !== ''));
+}
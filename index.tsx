@@ -2,147 +2,619 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
+import type { Baseline, ExtractedData, ExtractedField, HistoryEntry, ParseDiagnostics, ParsedRecord, PlanInventory, ValidationFinding } from './types.ts';
+import { dataToCsvString, type CsvDelimiter } from './csv.ts';
+import { applyFileNameTemplate, DEFAULT_EXPORT_SETTINGS, exportRecords, type ExportFormat, type ExportSettings } from './exporters.ts';
+import { applyHeaderMapping, guessHeaderMapping, IMPORT_FIELDS, parseImportText, type HeaderMapping, type ImportTable } from './importers.ts';
+import { createCheckbox, downloadBlob } from './dom.ts';
+import {
+  collectAttributeKeys,
+  DEFAULT_COLUMN_SETTINGS,
+  readColumnSettings,
+  withAttributeColumns,
+  type ColumnProfile,
+  type ColumnSettings,
+} from './column-profiles.ts';
+import { renderDiffView } from './diff-view.ts';
+import { renderDashboard } from './dashboard-view.ts';
+import { renderReconciliation } from './reconciliation-view.ts';
+import { renderCorrelation } from './correlation-view.ts';
+import { renderTimeline } from './timeline-view.ts';
+import { baselineLabel, renderDriftReport } from './baseline-view.ts';
+import { detectDrift, driftCount, driftFields, latestBaselines, mergeSnapshots, nextBaselineVersion } from './baseline.ts';
+import { renderWorkspaceImport } from './workspace-view.ts';
+import {
+  createWorkspaceBundle,
+  planWorkspaceImport,
+  readWorkspaceBundle,
+  type WorkspaceAnalysis,
+  type WorkspaceBundle,
+  type WorkspaceImport,
+} from './workspace.ts';
+import { createDataGrid, type DataGrid } from './data-grid.ts';
+import { countBySeverity, validateExtraction } from './validation.ts';
+import {
+  clearHistoryEntries,
+  deleteBaseline,
+  deleteHistoryEntry,
+  deletePlanInventory,
+  getStorageUsage,
+  HistoryBlockedError,
+  HistoryQuotaError,
+  loadBaselines,
+  loadHistoryEntries,
+  loadPlanInventories,
+  migrateLocalStorageHistory,
+  putBaseline,
+  putHistoryEntries,
+  putPlanInventory,
+  updateHistoryEntry,
+  type HistoryEntryChanges,
+} from './history-store.ts';
+import { ACCEPTED_DUMP_EXTENSIONS, deriveNodeName, formatFileSize, isSupportedDumpFile } from './files.ts';
+import { parseFileInWorker, ParseCancelledError, type ParseProgress } from './streaming-parser.ts';
+import { diagnosticsToRejectFile, sortedReasonCounts } from './diagnostics.ts';
+import { toExtractionResult, type ExtractionResult } from './extraction.ts';
+import {
+  COMMAND_PARSERS,
+  attributeColumn,
+  fieldValue,
+  isAttributeKey,
+  locationAreaParser,
+  mscPoolParser,
+  taiListParser,
+  trackingAreaParser,
+  type ColumnDef,
+  type CommandParser,
+  type MscPoolRecord,
+  type TaiListRecord,
+  type TrackingAreaRecord,
+} from './parsers.ts';
+import { analyzeExtractions, createAnalysisZip, type AnalysisResult } from './analysis.ts';
+import { analyzeDiscrepancies, type AiAnalysisResult } from './ai-analysis.ts';
+import { createGeminiClient, createGeminiModel, createStubModel, type AiModelId } from './ai-models.ts';
+import {
+  ApiCancelledError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiSerializationError,
+  ApiTimeoutError,
+  createApiClient,
+  DEFAULT_API_BASE_URL,
+  type ApiClient,
+} from './api-client.ts';
+import { runNaturalLanguageQuery, SNAPSHOT_FIELD, type QueryResult } from './nl-query.ts';
 
 // DOM element references
 const fileInput = document.getElementById('file-input') as HTMLInputElement;
 const extractButton = document.getElementById('extract-button') as HTMLButtonElement;
 const downloadCsvButton = document.getElementById('download-csv-button') as HTMLButtonElement;
+const importInput = document.getElementById('import-input') as HTMLInputElement;
+const planInput = document.getElementById('plan-input') as HTMLInputElement;
+const workspaceInput = document.getElementById('workspace-input') as HTMLInputElement;
+const exportFormatSelect = document.getElementById('export-format-select') as HTMLSelectElement;
+const exportDelimiterSelect = document.getElementById('export-delimiter-select') as HTMLSelectElement;
+const exportFileNameInput = document.getElementById('export-filename-input') as HTMLInputElement;
+const columnProfileSelect = document.getElementById('column-profile-select') as HTMLSelectElement;
+const saveColumnProfileButton = document.getElementById('save-column-profile-button') as HTMLButtonElement;
+const deleteColumnProfileButton = document.getElementById('delete-column-profile-button') as HTMLButtonElement;
+const columnAttributeList = document.getElementById('column-attribute-list') as HTMLFieldSetElement;
+const columnKeyList = document.getElementById('column-key-list') as HTMLFieldSetElement;
 const responseContainer = document.getElementById('response-container') as HTMLDivElement;
 const fileLabel = document.querySelector('.file-label span') as HTMLSpanElement;
+const controlsSection = document.querySelector('.controls') as HTMLElement;
+const autoSelectBatchCheckbox = document.getElementById('auto-select-batch-checkbox') as HTMLInputElement;
 const historyArea = document.querySelector('.history-area') as HTMLElement;
 const historyContainer = document.getElementById('history-container') as HTMLDivElement;
 const clearHistoryButton = document.getElementById('clear-history-button') as HTMLButtonElement;
+const storageUsageLabel = document.getElementById('storage-usage') as HTMLSpanElement;
+const historyErrorMessage = document.getElementById('history-error') as HTMLParagraphElement;
 const analyzeZipButton = document.getElementById('analyze-zip-button') as HTMLButtonElement;
 const analyzeJsonButton = document.getElementById('analyze-json-button') as HTMLButtonElement;
 const analyzeSplitButton = document.getElementById('analyze-split-button') as HTMLButtonElement;
 const analyzeAiButton = document.getElementById('analyze-ai-button') as HTMLButtonElement;
+const compareSnapshotsButton = document.getElementById('compare-snapshots-button') as HTMLButtonElement;
+const dashboardButton = document.getElementById('dashboard-button') as HTMLButtonElement;
+const reconcileButton = document.getElementById('reconcile-button') as HTMLButtonElement;
+const correlateButton = document.getElementById('correlate-button') as HTMLButtonElement;
+const timelineButton = document.getElementById('timeline-button') as HTMLButtonElement;
+const promoteBaselineButton = document.getElementById('promote-baseline-button') as HTMLButtonElement;
+const exportWorkspaceButton = document.getElementById('export-workspace-button') as HTMLButtonElement;
+const planSelect = document.getElementById('plan-select') as HTMLSelectElement;
+const deletePlanButton = document.getElementById('delete-plan-button') as HTMLButtonElement;
+const baselineSelect = document.getElementById('baseline-select') as HTMLSelectElement;
+const deleteBaselineButton = document.getElementById('delete-baseline-button') as HTMLButtonElement;
+const analysisModeSelect = document.getElementById('analysis-mode-select') as HTMLSelectElement;
+const aiModelSelect = document.getElementById('ai-model-select') as HTMLSelectElement;
+const apiBaseUrlInput = document.getElementById('api-base-url-input') as HTMLInputElement;
+const apiHealthBadge = document.getElementById('api-health-badge') as HTMLButtonElement;
+const queryForm = document.getElementById('query-form') as HTMLFormElement;
+const queryInput = document.getElementById('query-input') as HTMLInputElement;
+const queryButton = document.getElementById('query-button') as HTMLButtonElement;
 
 
 // Make sure all elements exist
-if (!fileInput || !extractButton || !downloadCsvButton || !responseContainer || !fileLabel || !historyArea || !historyContainer || !clearHistoryButton || !analyzeZipButton || !analyzeJsonButton || !analyzeSplitButton || !analyzeAiButton) {
+if (!fileInput || !extractButton || !downloadCsvButton || !importInput || !planInput || !workspaceInput || !exportFormatSelect || !exportDelimiterSelect || !exportFileNameInput || !columnProfileSelect || !saveColumnProfileButton || !deleteColumnProfileButton || !columnAttributeList || !columnKeyList || !responseContainer || !fileLabel || !controlsSection || !autoSelectBatchCheckbox || !historyArea || !historyContainer || !clearHistoryButton || !storageUsageLabel || !historyErrorMessage || !analyzeZipButton || !analyzeJsonButton || !analyzeSplitButton || !analyzeAiButton || !compareSnapshotsButton || !dashboardButton || !reconcileButton || !correlateButton || !timelineButton || !promoteBaselineButton || !exportWorkspaceButton || !planSelect || !deletePlanButton || !baselineSelect || !deleteBaselineButton || !analysisModeSelect || !aiModelSelect || !apiBaseUrlInput || !apiHealthBadge || !queryForm || !queryInput || !queryButton) {
   throw new Error("Required DOM elements not found.");
 }
 
-type ExtractedData = {
-  lac: string;
-  rat: string;
-  location: string;
-  tac: string;
-  msc: string;
-};
+type AnalysisMode = 'local' | 'remote';
 
-type HistoryEntry = {
-  timestamp: number;
-  data: ExtractedData[];
+const DEFAULT_FILE_LABEL = 'Choose or drop dump files';
+// History used to live in this localStorage key; it is migrated to IndexedDB on load
+const LEGACY_HISTORY_STORAGE_KEY = 'extractionHistory';
+const ANALYSIS_MODE_STORAGE_KEY = 'analysisMode';
+const EXPORT_SETTINGS_STORAGE_KEY = 'exportSettings';
+const COLUMN_SETTINGS_STORAGE_KEY = 'columnSettings';
+const COLUMN_PROFILES_STORAGE_KEY = 'columnProfiles';
+const AI_MODEL_STORAGE_KEY = 'aiModel';
+const selectedHistoryItems = new Set<number>();
+// Analysis results of this session (and imported workspaces), exported with the workspace
+const sessionAnalyses: WorkspaceAnalysis[] = [];
+const API_BASE_URL_STORAGE_KEY = 'apiBaseUrl';
+const SELECTED_PLAN_STORAGE_KEY = 'selectedPlan';
+
+type BatchOutcome = {
+  file: File;
+  result?: ExtractionResult;
+  error?: string;
 };
 
-const HISTORY_STORAGE_KEY = 'extractionHistory';
-const selectedHistoryItems = new Set<number>();
-const API_BASE_URL = 'http://localhost:8000';
+let pendingFiles: File[] = [];
 
-// Update file label with the selected file name
-fileInput.addEventListener('change', () => {
-  if (fileInput.files && fileInput.files.length > 0) {
-    fileLabel.textContent = fileInput.files[0].name;
-    // Reset view when a new file is chosen
-    responseContainer.innerHTML = '';
-    downloadCsvButton.classList.add('hidden');
+function setPendingFiles(files: File[]) {
+  pendingFiles = files;
+  if (files.length === 0) {
+    fileLabel.textContent = DEFAULT_FILE_LABEL;
   } else {
-    fileLabel.textContent = 'Choose a .txt file';
+    fileLabel.textContent = files.length === 1 ? files[0].name : `${files.length} files selected`;
   }
+  // Reset view when new files are chosen
+  responseContainer.innerHTML = '';
+  downloadCsvButton.classList.add('hidden');
+}
+
+// Update file label with the selected file names
+fileInput.addEventListener('change', () => {
+  setPendingFiles(Array.from(fileInput.files ?? []));
 });
 
+// Dropping dumps anywhere on the controls row behaves like choosing them
+controlsSection.addEventListener('dragover', (event) => {
+  event.preventDefault();
+  controlsSection.classList.add('drag-over');
+});
+controlsSection.addEventListener('dragleave', () => {
+  controlsSection.classList.remove('drag-over');
+});
+controlsSection.addEventListener('drop', (event) => {
+  event.preventDefault();
+  controlsSection.classList.remove('drag-over');
+  setPendingFiles(Array.from(event.dataTransfer?.files ?? []));
+});
+
+type ParseProgressPanel = {
+  element: HTMLElement;
+  startFile: (file: File, index: number, total: number) => void;
+  update: (progress: ParseProgress, records: Record<string, ParsedRecord[]>) => void;
+};
+
+// Progress bar, counters and a grid that fills with location area rows while the worker parses
+function createParseProgressPanel(onCancel: () => void): ParseProgressPanel {
+  const element = document.createElement('div');
+  element.className = 'parse-progress';
+
+  const title = document.createElement('p');
+  title.className = 'parse-progress-title';
+  const progressBar = document.createElement('progress');
+  const stats = document.createElement('p');
+  stats.className = 'parse-progress-stats';
+
+  const cancelButton = document.createElement('button');
+  cancelButton.className = 'cancel-parse-button';
+  cancelButton.textContent = 'Cancel';
+  cancelButton.onclick = () => {
+    cancelButton.disabled = true;
+    onCancel();
+  };
+
+  const createLiveGrid = () => createDataGrid({ columns: locationAreaParser.columns, rows: [], exportFileName: 'extracted_data_partial.csv' });
+  let liveGrid = createLiveGrid();
+
+  element.appendChild(title);
+  element.appendChild(progressBar);
+  element.appendChild(stats);
+  element.appendChild(cancelButton);
+  element.appendChild(liveGrid.element);
+
+  return {
+    element,
+    startFile: (file, index, total) => {
+      title.textContent = total > 1 ? `Parsing ${file.name} (${index + 1} of ${total})` : `Parsing ${file.name}`;
+      progressBar.max = Math.max(file.size, 1);
+      progressBar.value = 0;
+      const grid = createLiveGrid();
+      liveGrid.element.replaceWith(grid.element);
+      liveGrid = grid;
+    },
+    update: (progress, records) => {
+      progressBar.value = progress.bytesProcessed;
+      stats.textContent = `${progress.linesProcessed.toLocaleString()} lines · ` +
+        `${formatFileSize(progress.bytesProcessed)} of ${formatFileSize(progress.totalBytes)} · ` +
+        `${progress.matches.toLocaleString()} matches`;
+
+      liveGrid.appendRows(records[locationAreaParser.id] ?? []);
+    },
+  };
+}
+
+// Imported tables have no parse diagnostics, so those are optional here
+function displayExtractionResult(result: Pick<HistoryEntry, 'data' | 'records' | 'findings' | 'diagnostics'>, context: ExportContext = {}) {
+  const recordSets = getRecordSets(result);
+  if (recordSets.length > 0) {
+    const tabs = displayRecordTabs(recordSets, responseContainer, selected => {
+      // Set up the download button functionality for the visible tab
+      downloadCsvButton.onclick = () => generateRecordSetDownload(selected, context);
+    });
+    downloadCsvButton.classList.remove('hidden');
+    if (result.data.length > 0 && result.findings) {
+      responseContainer.appendChild(createFindingsPanel(result.findings, rowIndexes => tabs.showRows(locationAreaParser.id, rowIndexes)));
+    }
+    if (result.data.length > 0) {
+      responseContainer.appendChild(createDashboardPanel(result.data));
+    }
+  } else {
+    responseContainer.textContent = `No matching LAC, RAT, LOCATION, TAC, and MSC data found in the file. Ensure the file contains "-vlr" or "-msc" flags, or one of the supported commands (${COMMAND_PARSERS.map(p => p.command).join(', ')}).`;
+    downloadCsvButton.classList.add('hidden');
+  }
+  if (result.diagnostics) {
+    responseContainer.appendChild(createDiagnosticsPanel(result.diagnostics));
+  }
+}
+
+function displayBatchSummary(outcomes: BatchOutcome[], unsupported: File[], saved: boolean) {
+  const rows = [
+    ...outcomes.map(({ file, result, error }) => {
+      const rowCount = result ? getRecordSets(result).reduce((sum, set) => sum + set.records.length, 0) : 0;
+      const counts = result ? countBySeverity(result.findings) : null;
+      let status = error ?? (saved ? 'Saved to history' : 'Not saved to history');
+      if (!error && rowCount === 0) {
+        status = 'No matching data';
+      }
+      return {
+        file: file.name,
+        node: deriveNodeName(file.name),
+        size: formatFileSize(file.size),
+        rows: String(rowCount),
+        skipped: result ? String(result.diagnostics.totalLines - result.diagnostics.matchedLines) : '',
+        findings: counts ? `${counts.error} / ${counts.warning}` : '',
+        status,
+      };
+    }),
+    ...unsupported.map(file => ({
+      file: file.name,
+      node: '',
+      size: formatFileSize(file.size),
+      rows: '',
+      skipped: '',
+      findings: '',
+      status: 'Unsupported file type',
+    })),
+  ];
+
+  responseContainer.innerHTML = `<h3>Batch Extraction</h3>`;
+  const tableContainer = document.createElement('div');
+  displayRecordsAsTable(rows, [
+    { key: 'file', header: 'FILE' },
+    { key: 'node', header: 'NODE' },
+    { key: 'size', header: 'SIZE' },
+    { key: 'rows', header: 'ROWS' },
+    { key: 'skipped', header: 'SKIPPED LINES' },
+    { key: 'findings', header: 'ERRORS / WARNINGS' },
+    { key: 'status', header: 'STATUS' },
+  ], tableContainer);
+  responseContainer.appendChild(tableContainer);
+}
+
 // Handle the extract button click
 extractButton.addEventListener('click', async () => {
-  if (!fileInput.files || fileInput.files.length === 0) {
-    responseContainer.textContent = 'Please select a .txt file first.';
+  if (pendingFiles.length === 0) {
+    responseContainer.textContent = 'Please select a dump file first.';
     return;
   }
 
-  const file = fileInput.files[0];
-  if (file.type !== 'text/plain') {
-    responseContainer.textContent = 'Please select a valid .txt file.';
+  const files = pendingFiles.filter(isSupportedDumpFile);
+  const unsupported = pendingFiles.filter(file => !isSupportedDumpFile(file));
+  if (files.length === 0) {
+    responseContainer.textContent = `Please select valid dump files (${ACCEPTED_DUMP_EXTENSIONS.join(', ')}, optionally gzip-compressed).`;
     return;
   }
 
-  const reader = new FileReader();
-
-  reader.onload = async (e) => {
-    const fileContent = e.target?.result;
-    if (typeof fileContent !== 'string') {
-      responseContainer.textContent = 'Error reading file content.';
-      return;
-    }
-
-    if (fileContent.trim() === '') {
-      responseContainer.textContent = 'The selected file is empty. Please choose a file with content.';
-      return;
-    }
+  // UI updates for processing state
+  const abortController = new AbortController();
+  const progressPanel = createParseProgressPanel(() => abortController.abort());
+  responseContainer.innerHTML = '';
+  responseContainer.appendChild(progressPanel.element);
+  extractButton.disabled = true;
+  downloadCsvButton.classList.add('hidden');
 
-    // UI updates for processing state
-    responseContainer.innerHTML = '<div class="loader"></div>';
-    extractButton.disabled = true;
-    downloadCsvButton.classList.add('hidden');
+  try {
+    const outcomes: BatchOutcome[] = [];
+    const newEntries: HistoryEntry[] = [];
+    // Each file in the batch gets its own timestamp
+    let timestamp = nextHistoryTimestamp();
+
+    for (const [index, file] of files.entries()) {
+      if (abortController.signal.aborted) {
+        outcomes.push({ file, error: 'Cancelled' });
+        continue;
+      }
 
-    try {
-      // Artificial delay for UX to ensure the loader is visible
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      const lines = fileContent.split('\n');
-      const extractedData: ExtractedData[] = [];
-      // Regex to capture LAC, RAT, LOCATION, TAC and MSC/VLR (assuming -vlr or -msc flag)
-      const extractionRegex = /-lac\s+(\d+)\s+-at\s+(\S+).*?-gan\s+([A-Z]+)_(\d+).*?-(?:vlr|msc)\s+(\S+)/i;
-
-      for (const line of lines) {
-        // Skip empty or whitespace-only lines from processing
-        if (line.trim() === '') {
-          continue;
-        }
-        
-        const match = line.match(extractionRegex);
-        if (match) {
-          const record = {
-            lac: match[1],
-            rat: match[2],
-            location: match[3],
-            tac: match[4],
-            msc: match[5]
-          };
-          extractedData.push(record);
+      progressPanel.startFile(file, index, files.length);
+      let result: ExtractionResult;
+      try {
+        result = toExtractionResult(await parseFileInWorker(file, progressPanel.update, abortController.signal));
+      } catch (error) {
+        if (error instanceof ParseCancelledError) {
+          outcomes.push({ file, error: 'Cancelled' });
         } else {
-          // Log lines that don't match the pattern for debugging
-          console.log(`Line did not match pattern: "${line}"`);
+          console.error(`Failed to read ${file.name}:`, error);
+          outcomes.push({ file, error: 'Failed to read the file.' });
         }
+        continue;
+      }
+
+      if (result.diagnostics.totalLines === 0) {
+        outcomes.push({ file, error: 'The selected file is empty. Please choose a file with content.' });
+        continue;
       }
 
-      if (extractedData.length > 0) {
-        displayDataAsTable(extractedData, responseContainer, true);
-        downloadCsvButton.classList.remove('hidden');
-        // Set up the download button functionality
-        downloadCsvButton.onclick = () => generateCsvDownload(extractedData);
-        saveExtractionToHistory(extractedData);
+      outcomes.push({ file, result });
+      if (getRecordSets(result).length > 0) {
+        newEntries.push({
+          timestamp: timestamp++,
+          ...result,
+          source: { fileName: file.name, nodeName: deriveNodeName(file.name), size: file.size },
+        });
+      }
+    }
+
+    if (autoSelectBatchCheckbox.checked && newEntries.length > 0) {
+      selectedHistoryItems.clear();
+      newEntries.forEach(entry => selectedHistoryItems.add(entry.timestamp));
+    }
+    const saved = await saveEntriesToHistory(newEntries);
+
+    if (outcomes.length === 1 && unsupported.length === 0) {
+      const [{ file, result, error }] = outcomes;
+      if (result) {
+        displayExtractionResult(result, { node: deriveNodeName(file.name) });
       } else {
-        responseContainer.textContent = 'No matching LAC, RAT, LOCATION, TAC, and MSC data found in the file. Ensure the file contains "-vlr" or "-msc" flags.';
-        downloadCsvButton.classList.add('hidden');
+        responseContainer.textContent = error === 'Cancelled' ? 'Extraction cancelled.' : error ?? '';
       }
-    } catch (error) {
-      console.error('Parsing Error:', error);
-      responseContainer.textContent = 'Sorry, an error occurred while processing the file.';
-    } finally {
-      // Restore UI state
-      extractButton.disabled = false;
+    } else {
+      displayBatchSummary(outcomes, unsupported, saved);
     }
+  } catch (error) {
+    console.error('Parsing Error:', error);
+    responseContainer.textContent = 'Sorry, an error occurred while processing the file.';
+  } finally {
+    // Restore UI state
+    extractButton.disabled = false;
+  }
+});
+
+type RecordSet = {
+  parser: CommandParser;
+  records: ParsedRecord[];
+};
+
+// Non-empty record sets of an extraction, in registry order
+function getRecordSets(entry: Pick<HistoryEntry, 'data' | 'records'>): RecordSet[] {
+  return COMMAND_PARSERS
+    .map(parser => ({
+      parser,
+      records: parser === locationAreaParser ? entry.data : entry.records?.[parser.id] ?? [],
+    }))
+    .filter(set => set.records.length > 0);
+}
+
+type RecordTabs = {
+  // Switches to the tab of `parserId` and highlights the given rows
+  showRows: (parserId: string, rowIndexes: number[]) => void;
+};
+
+function displayRecordTabs(sets: RecordSet[], container: HTMLElement, onSelect: (set: RecordSet) => void): RecordTabs {
+  container.innerHTML = '';
+
+  const tabList = document.createElement('div');
+  tabList.className = 'record-tabs';
+  tabList.setAttribute('role', 'tablist');
+  const panel = document.createElement('div');
+  panel.className = 'record-tab-panel';
+  panel.setAttribute('role', 'tabpanel');
+
+  let activeIndex = -1;
+  let activeGrid: DataGrid | null = null;
+
+  const selectTab = (index: number) => {
+    Array.from(tabList.children).forEach((tab, i) => {
+      tab.classList.toggle('active', i === index);
+      tab.setAttribute('aria-selected', String(i === index));
+    });
+    const set = sets[index];
+    activeGrid = createDataGrid({
+      columns: recordSetColumns(set),
+      rows: set.records,
+      exportFileName: `extracted_${exportTypeName(set)}_view.csv`,
+    });
+    panel.replaceChildren(activeGrid.element);
+    activeIndex = index;
+    onSelect(set);
   };
 
-  reader.onerror = () => {
-    responseContainer.textContent = 'Failed to read the file.';
+  sets.forEach((set, index) => {
+    const tab = document.createElement('button');
+    tab.type = 'button';
+    tab.className = 'record-tab';
+    tab.setAttribute('role', 'tab');
+    tab.textContent = `${set.parser.label} (${set.records.length})`;
+    tab.onclick = () => selectTab(index);
+    tabList.appendChild(tab);
+  });
+
+  // A single record type renders without a tab strip
+  if (sets.length > 1) {
+    container.appendChild(tabList);
+  }
+  container.appendChild(panel);
+  if (sets.length > 0) {
+    selectTab(0);
+  }
+
+  return {
+    showRows: (parserId, rowIndexes) => {
+      const index = sets.findIndex(set => set.parser.id === parserId);
+      if (index < 0) {
+        return;
+      }
+      if (index !== activeIndex) {
+        selectTab(index);
+      }
+      activeGrid?.highlightRows(rowIndexes);
+    },
   };
+}
 
-  reader.readAsText(file);
-});
+function createFindingsPanel(findings: ValidationFinding[], onShowRows: (rowIndexes: number[]) => void): HTMLElement {
+  const counts = countBySeverity(findings);
+  const panel = document.createElement('details');
+  panel.className = 'findings-panel';
+  panel.open = counts.error > 0;
+
+  const summary = document.createElement('summary');
+  summary.textContent = findings.length === 0
+    ? 'Consistency checks: no issues found'
+    : `Consistency checks: ${counts.error} errors, ${counts.warning} warnings`;
+  panel.appendChild(summary);
+
+  const list = document.createElement('ul');
+  findings.forEach(finding => {
+    const item = document.createElement('li');
+    item.className = `finding finding-${finding.severity}`;
+
+    const severity = document.createElement('span');
+    severity.className = 'finding-severity';
+    severity.textContent = finding.severity;
+
+    const message = document.createElement('span');
+    message.textContent = finding.message;
+
+    const rowsButton = document.createElement('button');
+    rowsButton.type = 'button';
+    rowsButton.className = 'finding-rows-button';
+    rowsButton.textContent = `Show ${finding.rowIndexes.length} rows`;
+    rowsButton.onclick = () => onShowRows(finding.rowIndexes);
+
+    item.appendChild(severity);
+    item.appendChild(message);
+    item.appendChild(rowsButton);
+    list.appendChild(item);
+  });
+  panel.appendChild(list);
+  return panel;
+}
+
+// Collapsed by default; the charts are only built when first opened
+function createDashboardPanel(data: ExtractedData[]): HTMLElement {
+  const panel = document.createElement('details');
+  panel.className = 'dashboard-panel';
+  const summary = document.createElement('summary');
+  summary.textContent = 'Summary dashboard';
+  const content = document.createElement('div');
+  panel.appendChild(summary);
+  panel.appendChild(content);
+  panel.addEventListener('toggle', () => {
+    if (panel.open && !content.hasChildNodes()) {
+      renderDashboard(content, [{ name: 'This extraction', data }]);
+    }
+  });
+  return panel;
+}
+
+function createDiagnosticsPanel(diagnostics: ParseDiagnostics): HTMLElement {
+  const MAX_LISTED_LINES = 200;
+  const skippedCount = diagnostics.totalLines - diagnostics.matchedLines;
+
+  const panel = document.createElement('details');
+  panel.className = 'diagnostics-panel';
+  if (skippedCount > 0) {
+    panel.classList.add('has-skipped');
+  }
+
+  const summary = document.createElement('summary');
+  summary.textContent = `Parse diagnostics: ${diagnostics.matchedLines} of ${diagnostics.totalLines} lines matched, ${skippedCount} skipped`;
+  panel.appendChild(summary);
+
+  if (skippedCount === 0) {
+    return panel;
+  }
+
+  const reasonTable = document.createElement('table');
+  const reasonHeader = reasonTable.createTHead().insertRow();
+  ['REASON', 'LINES'].forEach(headerText => {
+    const th = document.createElement('th');
+    th.textContent = headerText;
+    reasonHeader.appendChild(th);
+  });
+  const reasonBody = reasonTable.createTBody();
+  sortedReasonCounts(diagnostics).forEach(([reason, count]) => {
+    const row = reasonBody.insertRow();
+    row.insertCell().textContent = reason;
+    row.insertCell().textContent = String(count);
+  });
+
+  const linesContainer = document.createElement('div');
+  displayRecordsAsTable(
+    diagnostics.skippedLines.slice(0, MAX_LISTED_LINES).map(skipped => ({
+      lineNumber: String(skipped.lineNumber),
+      reason: skipped.reason,
+      line: skipped.line,
+    })),
+    [
+      { key: 'lineNumber', header: 'LINE' },
+      { key: 'reason', header: 'REASON' },
+      { key: 'line', header: 'CONTENT' },
+    ],
+    linesContainer,
+    true
+  );
+
+  const downloadButton = document.createElement('button');
+  downloadButton.className = 'download-rejects-button';
+  downloadButton.textContent = 'Download Rejected Lines';
+  downloadButton.onclick = () => {
+    downloadBlob(new Blob([diagnosticsToRejectFile(diagnostics)], { type: 'text/tab-separated-values' }), 'rejected_lines.tsv');
+  };
+
+  const reasonContainer = document.createElement('div');
+  reasonContainer.appendChild(reasonTable);
+
+  panel.appendChild(reasonContainer);
+  if (skippedCount > MAX_LISTED_LINES) {
+    const note = document.createElement('p');
+    const keptCount = diagnostics.skippedLines.length;
+    note.textContent = keptCount < skippedCount
+      ? `Showing the first ${MAX_LISTED_LINES} of ${skippedCount} skipped lines. The reject file holds the first ${keptCount}.`
+      : `Showing the first ${MAX_LISTED_LINES} of ${skippedCount} skipped lines. Download the reject file for the full list.`;
+    panel.appendChild(note);
+  }
+  panel.appendChild(linesContainer);
+  panel.appendChild(downloadButton);
+  return panel;
+}
 
-function displayDataAsTable(data: ExtractedData[], container: HTMLElement, isPreview: boolean = false) {
+function displayRecordsAsTable(data: ParsedRecord[], columns: ColumnDef[], container: HTMLElement, isPreview: boolean = false) {
   const PREVIEW_ROW_COUNT = 5;
 
   // Clear previous content
@@ -153,9 +625,9 @@ function displayDataAsTable(data: ExtractedData[], container: HTMLElement, isPre
   // Create header row
   const thead = table.createTHead();
   const headerRow = thead.insertRow();
-  ['LAC', 'RAT', 'LOCATION', 'TAC', 'MSC/VLR'].forEach(headerText => {
+  columns.forEach(column => {
     const th = document.createElement('th');
-    th.textContent = headerText;
+    th.textContent = column.header;
     headerRow.appendChild(th);
   });
 
@@ -163,11 +635,9 @@ function displayDataAsTable(data: ExtractedData[], container: HTMLElement, isPre
   const tbody = table.createTBody();
   data.forEach(item => {
     const row = tbody.insertRow();
-    row.insertCell().textContent = item.lac;
-    row.insertCell().textContent = item.rat;
-    row.insertCell().textContent = item.location;
-    row.insertCell().textContent = item.tac;
-    row.insertCell().textContent = item.msc;
+    columns.forEach(column => {
+      row.insertCell().textContent = fieldValue(item, column.key);
+    });
   });
 
   if (isPreview && data.length > PREVIEW_ROW_COUNT) {
@@ -196,57 +666,437 @@ function displayDataAsTable(data: ExtractedData[], container: HTMLElement, isPre
   }
 }
 
-function dataToCsvString(data: ExtractedData[]): string {
-  const headers = ['LAC', 'RAT', 'LOCATION', 'TAC', 'MSC/VLR'];
-  const headerToKeyMap: Record<string, keyof ExtractedData> = {
-    'LAC': 'lac',
-    'RAT': 'rat',
-    'LOCATION': 'location',
-    'TAC': 'tac',
-    'MSC/VLR': 'msc'
+function generateCsvDownload(data: ExtractedData[], fileName: string = 'extracted_data.csv') {
+  const csvString = dataToCsvString(data);
+  downloadBlob(new Blob([csvString], { type: 'text/csv' }), fileName);
+}
+
+// --- Export Functions ---
+
+type ExportContext = {
+  node?: string;
+  timestamp?: number;
+};
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json', 'ndjson'];
+
+function getExportSettings(): ExportSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EXPORT_SETTINGS_STORAGE_KEY) ?? '{}') as Partial<ExportSettings>;
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, ...stored };
+    return EXPORT_FORMATS.includes(settings.format) ? settings : DEFAULT_EXPORT_SETTINGS;
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+}
+
+function downloadButtonLabel(): string {
+  return `Download ${getExportSettings().format.toUpperCase()}`;
+}
+
+// Shows the stored settings in the form and relabels every download button
+function showExportSettings() {
+  const settings = getExportSettings();
+  exportFormatSelect.value = settings.format;
+  exportDelimiterSelect.value = settings.delimiter === '\t' ? 'tab' : settings.delimiter;
+  exportDelimiterSelect.disabled = settings.format !== 'csv';
+  exportFileNameInput.value = settings.fileNameTemplate;
+  exportFileNameInput.placeholder = DEFAULT_EXPORT_SETTINGS.fileNameTemplate;
+  document.querySelectorAll<HTMLButtonElement>('#download-csv-button, .history-download-button').forEach(button => {
+    button.textContent = downloadButtonLabel();
+  });
+}
+
+function saveExportSettings() {
+  const settings: ExportSettings = {
+    format: exportFormatSelect.value as ExportFormat,
+    delimiter: (exportDelimiterSelect.value === 'tab' ? '\t' : exportDelimiterSelect.value) as CsvDelimiter,
+    fileNameTemplate: exportFileNameInput.value.trim() || DEFAULT_EXPORT_SETTINGS.fileNameTemplate,
   };
-  
-  const csvRows = [
-    headers.join(','), // header row
-    ...data.map(row => 
-      headers.map(h => `"${row[headerToKeyMap[h]]}"`).join(',')
-    )
-  ];
-  
-  return csvRows.join('\n');
+  localStorage.setItem(EXPORT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  showExportSettings();
 }
 
-function generateCsvDownload(data: ExtractedData[]) {
-  const csvString = dataToCsvString(data);
-  const blob = new Blob([csvString], { type: 'text/csv' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
+// Location areas keep their original "extracted_data" file name
+function exportTypeName(set: RecordSet): string {
+  return set.parser === locationAreaParser ? 'data' : set.parser.id;
+}
 
-  a.setAttribute('href', url);
-  a.setAttribute('download', 'extracted_data.csv');
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+function generateRecordSetDownload(set: RecordSet, context: ExportContext = {}) {
+  const settings = getExportSettings();
+  const fileName = applyFileNameTemplate(settings.fileNameTemplate, settings.format, { type: exportTypeName(set), ...context });
+  downloadBlob(exportRecords(set.records, recordSetColumns(set), settings, set.parser.label), fileName);
 }
 
+// --- Column Settings Functions ---
+
+function getColumnSettings(): ColumnSettings {
+  try {
+    return readColumnSettings(JSON.parse(localStorage.getItem(COLUMN_SETTINGS_STORAGE_KEY) ?? 'null'));
+  } catch {
+    return DEFAULT_COLUMN_SETTINGS;
+  }
+}
+
+function getColumnProfiles(): ColumnProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLUMN_PROFILES_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter(profile => typeof profile?.name === 'string').map(profile => ({ name: profile.name, ...readColumnSettings(profile) }))
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+// The parser's columns plus the chosen attributes this record set carries
+function recordSetColumns(set: RecordSet): ColumnDef[] {
+  return withAttributeColumns(set.parser.columns, getColumnSettings().attributes, [set.records]);
+}
+
+function sameColumnSettings(a: ColumnSettings, b: ColumnSettings): boolean {
+  const normalise = (settings: ColumnSettings) => JSON.stringify([[...settings.attributes].sort(), [...settings.keyFields].sort()]);
+  return normalise(a) === normalise(b);
+}
+
+function saveColumnSettings(settings: ColumnSettings) {
+  localStorage.setItem(COLUMN_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  showColumnSettings();
+  renderHistory();
+}
+
+// Lists the attributes found in history (plus any chosen ones no longer
+// present) and marks the profile matching the current selection
+function showColumnSettings() {
+  const settings = getColumnSettings();
+  const profiles = getColumnProfiles();
+  const attributes = [...new Set([
+    ...collectAttributeKeys(getHistory().flatMap(entry => getRecordSets(entry).map(set => set.records))),
+    ...settings.attributes,
+    ...settings.keyFields.filter(isAttributeKey),
+  ])];
+
+  columnProfileSelect.innerHTML = '';
+  columnProfileSelect.add(new Option('(unsaved selection)', ''));
+  profiles.forEach(profile => columnProfileSelect.add(new Option(profile.name, profile.name)));
+  columnProfileSelect.value = profiles.find(profile => sameColumnSettings(profile, settings))?.name ?? '';
+  deleteColumnProfileButton.disabled = columnProfileSelect.value === '';
+
+  columnAttributeList.querySelectorAll('label, p').forEach(element => element.remove());
+  if (attributes.length === 0) {
+    const empty = document.createElement('p');
+    empty.textContent = 'No flags captured yet. Extract a dump to list the flags its lines carry.';
+    columnAttributeList.appendChild(empty);
+  }
+  attributes.forEach(key => {
+    columnAttributeList.appendChild(createCheckbox(attributeColumn(key).header, settings.attributes.includes(key), checkbox => {
+      const chosen = settings.attributes.filter(attribute => attribute !== key);
+      saveColumnSettings({ ...settings, attributes: checkbox.checked ? [...chosen, key] : chosen });
+    }));
+  });
+
+  columnKeyList.querySelectorAll('label').forEach(label => label.remove());
+  [...locationAreaParser.columns, ...attributes.map(attributeColumn)].forEach(column => {
+    columnKeyList.appendChild(createCheckbox(column.header, settings.keyFields.includes(column.key), checkbox => {
+      const others = settings.keyFields.filter(field => field !== column.key);
+      if (!checkbox.checked && others.length === 0) {
+        // At least one key field is required
+        checkbox.checked = true;
+        return;
+      }
+      saveColumnSettings({ ...settings, keyFields: checkbox.checked ? [...others, column.key] : others });
+    }));
+  });
+}
+
+// --- Import Functions ---
+
+const IMPORT_PREVIEW_ROW_COUNT = 5;
+
+type ColumnMappingOptions = {
+  heading: string;
+  confirmLabel: string;
+  // Fields that must be mapped before the import can be confirmed
+  requiredFields: (ExtractedField)[];
+  // Resolves to false when saving failed, so the import can be retried
+  onConfirm: (data: ExtractedData[]) => Promise<boolean>;
+};
+
+function renderColumnMapping(table: ImportTable, { heading: headingText, confirmLabel, requiredFields, onConfirm }: ColumnMappingOptions) {
+  const mapping: HeaderMapping = guessHeaderMapping(table.headers);
+  responseContainer.innerHTML = '';
+
+  const heading = document.createElement('h3');
+  heading.textContent = headingText;
+  const intro = document.createElement('p');
+  intro.textContent = `Found ${table.rows.length.toLocaleString()} rows and ${table.headers.length} columns. Choose the column that holds each field.`;
+
+  const form = document.createElement('div');
+  form.className = 'import-mapping';
+  const preview = document.createElement('div');
+  preview.className = 'import-preview';
+  const importButton = document.createElement('button');
+  importButton.type = 'button';
+  importButton.className = 'import-confirm-button';
+  importButton.textContent = confirmLabel;
+
+  const updatePreview = () => {
+    const previewRows = applyHeaderMapping({ headers: table.headers, rows: table.rows.slice(0, IMPORT_PREVIEW_ROW_COUNT) }, mapping);
+    displayRecordsAsTable(previewRows, IMPORT_FIELDS, preview);
+    importButton.disabled = IMPORT_FIELDS.every(({ key }) => mapping[key] === null) || requiredFields.some(key => mapping[key] === null);
+  };
+
+  IMPORT_FIELDS.forEach(({ key, header }) => {
+    const label = document.createElement('label');
+    const name = document.createElement('span');
+    name.textContent = requiredFields.includes(key) ? `${header} (required)` : header;
+    const select = document.createElement('select');
+    select.add(new Option('(not mapped)', ''));
+    table.headers.forEach((columnHeader, index) => {
+      select.add(new Option(columnHeader || `Column ${index + 1}`, String(index)));
+    });
+    select.value = mapping[key] === null ? '' : String(mapping[key]);
+    select.addEventListener('change', () => {
+      mapping[key] = select.value === '' ? null : Number(select.value);
+      updatePreview();
+    });
+    label.appendChild(name);
+    label.appendChild(select);
+    form.appendChild(label);
+  });
+
+  importButton.onclick = async () => {
+    const data = applyHeaderMapping(table, mapping);
+    if (data.length === 0) {
+      alert('The mapped columns do not contain any data.');
+      return;
+    }
+    importButton.disabled = true;
+    if (!(await onConfirm(data))) {
+      importButton.disabled = false;
+    }
+  };
+
+  updatePreview();
+  responseContainer.appendChild(heading);
+  responseContainer.appendChild(intro);
+  responseContainer.appendChild(form);
+  responseContainer.appendChild(preview);
+  responseContainer.appendChild(importButton);
+}
+
+function renderImportMapping(file: File, table: ImportTable) {
+  renderColumnMapping(table, {
+    heading: `Import ${file.name}`,
+    confirmLabel: 'Import as History Entry',
+    requiredFields: [],
+    onConfirm: async data => {
+      const source = { fileName: file.name, nodeName: deriveNodeName(file.name), size: file.size };
+      const entry: HistoryEntry = {
+        timestamp: nextHistoryTimestamp(),
+        data,
+        findings: validateExtraction(data),
+        source,
+        tags: ['imported'],
+      };
+      if (autoSelectBatchCheckbox.checked) {
+        selectedHistoryItems.add(entry.timestamp);
+      }
+      if (!(await saveEntriesToHistory([entry]))) {
+        return false;
+      }
+      responseContainer.innerHTML = '';
+      displayExtractionResult(entry, { node: source.nodeName, timestamp: entry.timestamp });
+      return true;
+    },
+  });
+}
+
+// Plans come from radio planning spreadsheets; only the LAC is needed to
+// match them, the other columns are compared when present
+function renderPlanMapping(file: File, table: ImportTable) {
+  renderColumnMapping(table, {
+    heading: `Import plan ${file.name}`,
+    confirmLabel: 'Save as Reference Plan',
+    requiredFields: ['lac'],
+    onConfirm: async rows => {
+      const plan: PlanInventory = {
+        id: Math.max(Date.now(), ...planCache.map(p => p.id + 1)),
+        name: file.name.replace(/\.[^.]+$/, ''),
+        fileName: file.name,
+        rows,
+      };
+      try {
+        await putPlanInventory(plan);
+      } catch (error) {
+        showHistoryError(error);
+        return false;
+      }
+      localStorage.setItem(SELECTED_PLAN_STORAGE_KEY, String(plan.id));
+      await refreshPlans();
+      responseContainer.textContent = `Saved plan "${plan.name}" with ${rows.length.toLocaleString()} areas. Select one history entry and click "Reconcile with Plan".`;
+      return true;
+    },
+  });
+}
+
+async function readImportTable(file: File): Promise<ImportTable | null> {
+  let table: ImportTable;
+  try {
+    table = parseImportText(file.name, await file.text());
+  } catch (error) {
+    console.error(`Failed to import ${file.name}:`, error);
+    responseContainer.textContent = `Could not read ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}`;
+    return null;
+  }
+  if (table.headers.length === 0 || table.rows.length === 0) {
+    responseContainer.textContent = `${file.name} does not contain a header row and data rows to import.`;
+    return null;
+  }
+  return table;
+}
+
+importInput.addEventListener('change', async () => {
+  const file = importInput.files?.[0];
+  // Clear the input so choosing the same file again triggers another import
+  importInput.value = '';
+  if (!file) {
+    return;
+  }
+  downloadCsvButton.classList.add('hidden');
+  const table = await readImportTable(file);
+  if (table) {
+    renderImportMapping(file, table);
+  }
+});
+
+planInput.addEventListener('change', async () => {
+  const file = planInput.files?.[0];
+  planInput.value = '';
+  if (!file) {
+    return;
+  }
+  downloadCsvButton.classList.add('hidden');
+  const table = await readImportTable(file);
+  if (table) {
+    renderPlanMapping(file, table);
+  }
+});
+
+workspaceInput.addEventListener('change', async () => {
+  const file = workspaceInput.files?.[0];
+  workspaceInput.value = '';
+  if (!file) {
+    return;
+  }
+  downloadCsvButton.classList.add('hidden');
+  let workspace;
+  try {
+    workspace = readWorkspaceBundle(JSON.parse(await file.text()));
+  } catch (error) {
+    console.error(`Failed to import ${file.name}:`, error);
+    responseContainer.textContent = `Could not read ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}`;
+    return;
+  }
+  const { bundle } = workspace;
+  const getStoredWorkspace = () => ({ entries: getHistory(), plans: planCache, baselines: baselineCache, columnProfiles: getColumnProfiles() });
+  renderWorkspaceImport(responseContainer, file.name, workspace, getStoredWorkspace(), {
+    onImport: (policy, useColumnSettings) => importWorkspace(bundle, planWorkspaceImport(bundle, getStoredWorkspace(), policy), useColumnSettings),
+    onShowAnalysis: analysis => {
+      if (analysis.kind === 'ai-discrepancies') {
+        showAiResults(analysis.result as AiAnalysisResult, analysis.producer);
+      } else {
+        showJsonResults(analysis.result);
+      }
+    },
+  });
+});
+
 // --- History Functions ---
 
+// In-memory copy of the IndexedDB history, newest first, refreshed after every write
+let historyCache: HistoryEntry[] = [];
+
 function getHistory(): HistoryEntry[] {
-  const historyJson = localStorage.getItem(HISTORY_STORAGE_KEY);
-  return historyJson ? JSON.parse(historyJson) : [];
+  return historyCache;
 }
 
-function saveExtractionToHistory(data: ExtractedData[]) {
-  const history = getHistory();
-  const newEntry: HistoryEntry = {
-    timestamp: Date.now(),
-    data: data,
-  };
-  // Add new entry to the beginning of the array
-  history.unshift(newEntry);
-  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+// Short label for an entry in dashboards and AI results
+function entryDisplayName(entry: HistoryEntry): string {
+  return entry.name || `${entry.source ? `${entry.source.nodeName} ` : ''}${new Date(entry.timestamp).toLocaleString()}`;
+}
+
+// Selected entries, oldest first, as named snapshots. Charts and models refer
+// to snapshots by name, so duplicate names get the timestamp appended.
+function getSelectedSnapshots(): { name: string; data: ExtractedData[] }[] {
+  const entries = getHistory()
+    .filter(entry => selectedHistoryItems.has(entry.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const names = entries.map(entryDisplayName);
+  const unique = new Set(names).size === names.length;
+  return entries.map((entry, i) => ({ name: unique ? names[i] : `${names[i]} (${entry.timestamp})`, data: entry.data }));
+}
+
+// History entries are keyed by timestamp, so new ones must not reuse an existing one
+function nextHistoryTimestamp(): number {
+  return Math.max(Date.now(), ...getHistory().map(entry => entry.timestamp + 1));
+}
+
+function showHistoryError(error: unknown) {
+  console.error('History Storage Error:', error);
+  historyErrorMessage.textContent = error instanceof HistoryQuotaError || error instanceof HistoryBlockedError
+    ? error.message
+    : `Could not update the extraction history: ${error instanceof Error ? error.message : String(error)}`;
+  historyErrorMessage.classList.remove('hidden');
+  historyArea.classList.remove('hidden');
+}
+
+async function refreshHistory() {
+  try {
+    historyCache = await loadHistoryEntries();
+  } catch (error) {
+    showHistoryError(error);
+  }
   renderHistory();
+  showColumnSettings();
+  updateStorageUsage();
+}
+
+async function saveEntriesToHistory(entries: HistoryEntry[]): Promise<boolean> {
+  if (entries.length === 0) {
+    return true;
+  }
+  try {
+    await putHistoryEntries(entries);
+    historyErrorMessage.classList.add('hidden');
+    return true;
+  } catch (error) {
+    entries.forEach(entry => selectedHistoryItems.delete(entry.timestamp));
+    showHistoryError(error);
+    return false;
+  } finally {
+    await refreshHistory();
+  }
+}
+
+async function updateEntry(timestamp: number, changes: HistoryEntryChanges) {
+  try {
+    await updateHistoryEntry(timestamp, changes);
+  } catch (error) {
+    showHistoryError(error);
+  }
+  await refreshHistory();
+}
+
+// History entries moved from localStorage at startup, shown with the storage usage
+let migratedHistoryCount = 0;
+
+async function updateStorageUsage() {
+  const usage = await getStorageUsage().catch(() => null);
+  storageUsageLabel.textContent = [
+    usage ? `Storage used: ${formatFileSize(usage.usage)} of ${formatFileSize(usage.quota)}` : '',
+    migratedHistoryCount > 0 ? `${migratedHistoryCount} entries moved from the previous history storage` : '',
+  ].filter(Boolean).join(' · ');
 }
 
 function updateAnalyzeButtonState() {
@@ -255,6 +1105,70 @@ function updateAnalyzeButtonState() {
   analyzeJsonButton.disabled = disabled;
   analyzeSplitButton.disabled = disabled;
   analyzeAiButton.disabled = disabled;
+  // The field-level diff compares exactly one pair of snapshots
+  compareSnapshotsButton.disabled = selectedHistoryItems.size !== 2;
+  dashboardButton.disabled = selectedHistoryItems.size === 0;
+  queryButton.disabled = selectedHistoryItems.size === 0;
+  reconcileButton.disabled = selectedHistoryItems.size !== 1 || !getSelectedPlan();
+  correlateButton.disabled = selectedHistoryItems.size === 0;
+  // The timeline walks the whole history regardless of the selection
+  timelineButton.disabled = getHistory().length === 0;
+  exportWorkspaceButton.disabled = getHistory().length === 0;
+  promoteBaselineButton.disabled = selectedHistoryItems.size === 0;
+}
+
+function createEntryActions(entry: HistoryEntry): HTMLElement {
+  const actions = document.createElement('div');
+  actions.className = 'history-entry-actions';
+
+  const renameButton = document.createElement('button');
+  renameButton.textContent = 'Rename';
+  renameButton.onclick = () => {
+    const name = prompt('Name for this extraction:', entry.name ?? '');
+    if (name !== null) {
+      updateEntry(entry.timestamp, { name: name.trim() || undefined });
+    }
+  };
+
+  const tagsButton = document.createElement('button');
+  tagsButton.textContent = 'Edit Tags';
+  tagsButton.onclick = () => {
+    const tags = prompt('Tags (comma separated):', (entry.tags ?? []).join(', '));
+    if (tags !== null) {
+      updateEntry(entry.timestamp, { tags: tags.split(',').map(tag => tag.trim()).filter(Boolean) });
+    }
+  };
+
+  const notesButton = document.createElement('button');
+  notesButton.textContent = 'Edit Notes';
+  notesButton.onclick = () => {
+    const notes = prompt('Notes:', entry.notes ?? '');
+    if (notes !== null) {
+      updateEntry(entry.timestamp, { notes: notes.trim() || undefined });
+    }
+  };
+
+  const deleteButton = document.createElement('button');
+  deleteButton.className = 'delete-entry-button';
+  deleteButton.textContent = 'Delete';
+  deleteButton.onclick = async () => {
+    if (!confirm('Delete this extraction from history? This cannot be undone.')) {
+      return;
+    }
+    try {
+      await deleteHistoryEntry(entry.timestamp);
+      selectedHistoryItems.delete(entry.timestamp);
+    } catch (error) {
+      showHistoryError(error);
+    }
+    await refreshHistory();
+  };
+
+  actions.appendChild(renameButton);
+  actions.appendChild(tagsButton);
+  actions.appendChild(notesButton);
+  actions.appendChild(deleteButton);
+  return actions;
 }
 
 function renderHistory() {
@@ -262,7 +1176,10 @@ function renderHistory() {
   historyContainer.innerHTML = '';
 
   if (history.length === 0) {
-    historyArea.classList.add('hidden');
+    if (historyErrorMessage.classList.contains('hidden')) {
+      historyArea.classList.add('hidden');
+    }
+    updateAnalyzeButtonState();
     return;
   }
 
@@ -281,24 +1198,62 @@ function renderHistory() {
     const timestampStr = new Date(entry.timestamp).toLocaleString();
     checkbox.setAttribute('aria-label', `Select extraction from ${timestampStr} for analysis`);
 
+    const recordSets = getRecordSets(entry);
+    const rowCount = recordSets.reduce((sum, set) => sum + set.records.length, 0);
     const summaryText = document.createElement('span');
-    summaryText.textContent = `Extracted on ${timestampStr} (${entry.data.length} rows)`;
+    const nameLabel = entry.name ? `${entry.name} · ` : '';
+    const sourceLabel = entry.source ? `${entry.source.nodeName} · ${entry.source.fileName} (${formatFileSize(entry.source.size)}) · ` : '';
+    summaryText.textContent = `${nameLabel}${sourceLabel}Extracted on ${timestampStr} (${rowCount} rows)`;
 
     summary.appendChild(checkbox);
     summary.appendChild(summaryText);
+    (entry.tags ?? []).forEach(tag => {
+      const tagChip = document.createElement('span');
+      tagChip.className = 'history-tag';
+      tagChip.textContent = tag;
+      summary.appendChild(tagChip);
+    });
+    const driftBadge = createDriftBadge(entry);
+    if (driftBadge) {
+      summary.appendChild(driftBadge);
+    }
 
     const content = document.createElement('div');
     content.className = 'history-item-content';
 
-    const tableContainer = document.createElement('div');
-    displayDataAsTable(entry.data, tableContainer, true);
-
-    const downloadButton = document.createElement('button');
-    downloadButton.textContent = 'Download CSV';
-    downloadButton.onclick = () => generateCsvDownload(entry.data);
+    // The grids and panels are built on first expand, so re-rendering a long
+    // history after a rename or tag edit stays cheap
+    const fillContent = () => {
+      if (entry.notes) {
+        const notes = document.createElement('p');
+        notes.className = 'history-notes';
+        notes.textContent = entry.notes;
+        content.appendChild(notes);
+      }
 
-    content.appendChild(tableContainer);
-    content.appendChild(downloadButton);
+      const tableContainer = document.createElement('div');
+      const downloadButton = document.createElement('button');
+      downloadButton.className = 'history-download-button';
+      downloadButton.textContent = downloadButtonLabel();
+      const tabs = displayRecordTabs(recordSets, tableContainer, selected => {
+        downloadButton.onclick = () => generateRecordSetDownload(selected, { node: entry.source?.nodeName, timestamp: entry.timestamp });
+      });
+
+      content.appendChild(tableContainer);
+      content.appendChild(downloadButton);
+      if (entry.findings) {
+        content.appendChild(createFindingsPanel(entry.findings, rowIndexes => tabs.showRows(locationAreaParser.id, rowIndexes)));
+      }
+      if (entry.diagnostics) {
+        content.appendChild(createDiagnosticsPanel(entry.diagnostics));
+      }
+      content.appendChild(createEntryActions(entry));
+    };
+    historyItem.addEventListener('toggle', () => {
+      if (historyItem.open && !content.hasChildNodes()) {
+        fillContent();
+      }
+    });
     historyItem.appendChild(summary);
     historyItem.appendChild(content);
 
@@ -320,46 +1275,366 @@ historyContainer.addEventListener('change', (event) => {
   }
 });
 
-clearHistoryButton.addEventListener('click', () => {
+clearHistoryButton.addEventListener('click', async () => {
   if (confirm('Are you sure you want to clear all extraction history? This cannot be undone.')) {
-    localStorage.removeItem(HISTORY_STORAGE_KEY);
-    selectedHistoryItems.clear();
-    renderHistory();
+    try {
+      await clearHistoryEntries();
+      selectedHistoryItems.clear();
+      historyErrorMessage.classList.add('hidden');
+    } catch (error) {
+      showHistoryError(error);
+    }
+    await refreshHistory();
   }
 });
 
-async function handleApiError(response: Response): Promise<never> {
-  const errorText = await response.text();
+async function initializeHistory() {
+  try {
+    migratedHistoryCount = await migrateLocalStorageHistory(LEGACY_HISTORY_STORAGE_KEY);
+  } catch (error) {
+    showHistoryError(error);
+  }
+  await refreshHistory();
+}
+
+// --- Plan Functions ---
+
+// In-memory copy of the stored plan inventories, most recent first
+let planCache: PlanInventory[] = [];
+
+function getSelectedPlan(): PlanInventory | undefined {
+  return planCache.find(plan => String(plan.id) === planSelect.value);
+}
+
+async function refreshPlans() {
+  try {
+    planCache = await loadPlanInventories();
+  } catch (error) {
+    showHistoryError(error);
+  }
+  const selectedId = localStorage.getItem(SELECTED_PLAN_STORAGE_KEY);
+  planSelect.innerHTML = '';
+  planSelect.add(new Option(planCache.length > 0 ? '(choose a plan)' : '(no plans imported)', ''));
+  planCache.forEach(plan => {
+    planSelect.add(new Option(`${plan.name} (${plan.rows.length} areas, ${new Date(plan.id).toLocaleDateString()})`, String(plan.id)));
+  });
+  planSelect.value = planCache.some(plan => String(plan.id) === selectedId) ? selectedId ?? '' : '';
+  deletePlanButton.disabled = !getSelectedPlan();
+  updateAnalyzeButtonState();
+}
+
+// --- Baseline Functions ---
+
+// In-memory copy of every stored baseline version, most recent first
+let baselineCache: Baseline[] = [];
+// Drift counts by entry, baseline version and column settings; diffing every
+// entry on each history render would be slow for large dumps
+const driftCountCache = new Map<string, number>();
+
+function getEntryBaseline(entry: HistoryEntry): Baseline | undefined {
+  return entry.source ? latestBaselines(baselineCache).get(entry.source.nodeName) : undefined;
+}
+
+function getDriftCount(entry: HistoryEntry, baseline: Baseline): number {
+  const settings = getColumnSettings();
+  const cacheKey = `${entry.timestamp}:${baseline.id}:${JSON.stringify(settings)}`;
+  let count = driftCountCache.get(cacheKey);
+  if (count === undefined) {
+    const { columns, keyFields } = driftFields(settings, [baseline.rows, entry.data]);
+    count = driftCount(detectDrift(baseline, entry.data, keyFields, columns.map(c => c.key)));
+    driftCountCache.set(cacheKey, count);
+  }
+  return count;
+}
+
+// Badge in the history summary: the baseline version the entry was promoted
+// to, or its drift from its node's current baseline
+function createDriftBadge(entry: HistoryEntry): HTMLElement | null {
+  const baseline = getEntryBaseline(entry);
+  if (!baseline) {
+    return null;
+  }
+  if (baseline.sourceTimestamps.includes(entry.timestamp)) {
+    const badge = document.createElement('span');
+    badge.className = 'drift-badge drift-baseline';
+    badge.textContent = `Baseline v${baseline.version}`;
+    return badge;
+  }
+  const count = getDriftCount(entry, baseline);
+  const badge = document.createElement('button');
+  badge.type = 'button';
+  badge.className = `drift-badge ${count > 0 ? 'drift-detected' : 'drift-clean'}`;
+  badge.textContent = count > 0 ? `Drift: ${count}` : 'No drift';
+  badge.title = `Compared with ${baselineLabel(baseline)}`;
+  badge.onclick = (event) => {
+    // Keep the click from toggling the history item
+    event.preventDefault();
+    showDriftReport(entry, baseline);
+  };
+  return badge;
+}
+
+function showDriftReport(entry: HistoryEntry, baseline: Baseline) {
+  renderDriftReport(responseContainer, baseline, { name: entryDisplayName(entry), data: entry.data }, getColumnSettings(), async (rows, acceptedAll) => {
+    const approved: Baseline = {
+      id: Date.now(),
+      node: baseline.node,
+      name: baseline.name,
+      version: nextBaselineVersion(baselineCache, baseline.node),
+      // With changes left unaccepted the entry still drifts from this version
+      sourceTimestamps: acceptedAll ? [entry.timestamp] : [],
+      rows,
+    };
+    if (await storeBaseline(approved)) {
+      showDriftReport(entry, approved);
+    }
+  });
+  downloadCsvButton.classList.add('hidden');
+}
+
+async function storeBaseline(baseline: Baseline): Promise<boolean> {
+  try {
+    await putBaseline(baseline);
+    historyErrorMessage.classList.add('hidden');
+    return true;
+  } catch (error) {
+    showHistoryError(error);
+    return false;
+  } finally {
+    await refreshBaselines();
+  }
+}
+
+async function refreshBaselines() {
   try {
-    const errorJson = JSON.parse(errorText);
-    throw new Error(`Server responded with status ${response.status}:\n${JSON.stringify(errorJson, null, 2)}`);
-  } catch (e) {
-    throw new Error(`Server responded with status ${response.status}: ${errorText || 'An unknown error occurred'}`);
+    baselineCache = await loadBaselines();
+  } catch (error) {
+    showHistoryError(error);
   }
+  const latest = latestBaselines(baselineCache);
+  baselineSelect.innerHTML = '';
+  baselineSelect.add(new Option(baselineCache.length > 0 ? '(choose a baseline)' : '(no baselines)', ''));
+  baselineCache.forEach(baseline => {
+    const current = latest.get(baseline.node) === baseline ? ', current' : '';
+    baselineSelect.add(new Option(`${baselineLabel(baseline)} (${baseline.rows.length} rows, ${new Date(baseline.id).toLocaleDateString()}${current})`, String(baseline.id)));
+  });
+  deleteBaselineButton.disabled = true;
+  renderHistory();
 }
 
-async function downloadSplitFile(downloadUrl: string, sourceFile: string) {
+// --- Workspace Functions ---
+
+// Stores what planWorkspaceImport decided to take from a bundle and restores
+// the exporter's selection and analysis results
+async function importWorkspace(bundle: WorkspaceBundle, changes: WorkspaceImport, useColumnSettings: boolean): Promise<WorkspaceImport | null> {
   try {
-    const response = await fetch(`${API_BASE_URL}${downloadUrl}`);
-    if (!response.ok) {
-        await handleApiError(response);
+    await putHistoryEntries(changes.entries);
+    for (const plan of changes.plans) {
+      await putPlanInventory(plan);
     }
-    const blob = await response.blob();
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `unique_rows_${sourceFile}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    for (const baseline of changes.baselines) {
+      await putBaseline(baseline);
+    }
+    historyErrorMessage.classList.add('hidden');
+  } catch (error) {
+    showHistoryError(error);
+    return null;
+  }
+  localStorage.setItem(COLUMN_PROFILES_STORAGE_KEY, JSON.stringify(changes.columnProfiles));
+  if (useColumnSettings) {
+    localStorage.setItem(COLUMN_SETTINGS_STORAGE_KEY, JSON.stringify(bundle.columnSettings));
+  }
+  if (changes.selection.length > 0) {
+    selectedHistoryItems.clear();
+    changes.selection.forEach(timestamp => selectedHistoryItems.add(timestamp));
+  }
+  sessionAnalyses.push(...changes.analyses);
+  await refreshHistory();
+  await refreshPlans();
+  await refreshBaselines();
+  return changes;
+}
+
+function getApiBaseUrl(): string {
+  return localStorage.getItem(API_BASE_URL_STORAGE_KEY) || DEFAULT_API_BASE_URL;
+}
+
+function getApiClient(): ApiClient {
+  return createApiClient({ baseUrl: getApiBaseUrl() });
+}
+
+async function downloadSplitFile(client: ApiClient, downloadUrl: string, sourceFile: string) {
+  try {
+    downloadBlob(await client.downloadFile(downloadUrl), `unique_rows_${sourceFile}.csv`);
   } catch (error) {
     console.error(`Failed to download split file ${sourceFile}:`, error);
-    alert(`Could not download the file for ${sourceFile}. See console for details.`);
+    alert(`Could not download the file for ${sourceFile}. ${error instanceof Error ? error.message : ''}`);
+  }
+}
+
+// Latest probe wins; earlier ones may resolve after a base URL change
+let healthCheckId = 0;
+
+async function checkApiHealth() {
+  const checkId = ++healthCheckId;
+  const client = getApiClient();
+  apiHealthBadge.dataset.state = 'checking';
+  apiHealthBadge.textContent = 'Server: checking…';
+  apiHealthBadge.title = `Checking ${client.baseUrl}/health`;
+  try {
+    const health = await client.health();
+    if (checkId !== healthCheckId) {
+      return;
+    }
+    apiHealthBadge.dataset.state = health.status === 'ok' ? 'online' : 'degraded';
+    apiHealthBadge.textContent = `Server: ${health.status}${health.version ? ` (v${health.version})` : ''}`;
+    apiHealthBadge.title = `${client.baseUrl} responded; click to check again`;
+  } catch (error) {
+    if (checkId !== healthCheckId) {
+      return;
+    }
+    apiHealthBadge.dataset.state = 'offline';
+    apiHealthBadge.textContent = 'Server: offline';
+    apiHealthBadge.title = `${error instanceof Error ? error.message : 'Health check failed.'} Click to check again.`;
   }
 }
 
-async function performAnalysis(endpoint: string, analysisType: 'zip' | 'json' | 'split') {
+type AnalysisType = 'zip' | 'json' | 'split';
+
+function getAnalysisMode(): AnalysisMode {
+  return localStorage.getItem(ANALYSIS_MODE_STORAGE_KEY) === 'remote' ? 'remote' : 'local';
+}
+
+function recordAnalysis(kind: WorkspaceAnalysis['kind'], entries: HistoryEntry[], producer: string, result: unknown) {
+  sessionAnalyses.push({ kind, createdAt: Date.now(), sources: entries.map(entry => entry.timestamp), producer, result });
+}
+
+function showZipDownloaded(zipBlob: Blob) {
+  downloadBlob(zipBlob, 'analysis_results.zip');
+  responseContainer.innerHTML = `<h3>Analysis Complete</h3><p>Your analysis results have been downloaded as "analysis_results.zip".</p>`;
+}
+
+function showJsonResults(jsonData: unknown) {
+  const jsonString = JSON.stringify(jsonData, null, 2);
+
+  const downloadJsonButton = document.createElement('button');
+  downloadJsonButton.textContent = 'Download JSON';
+  downloadJsonButton.onclick = () => {
+    downloadBlob(new Blob([jsonString], { type: 'application/json' }), 'analysis_results.json');
+  };
+
+  responseContainer.innerHTML = `<h3>JSON Analysis Results</h3>`;
+  responseContainer.appendChild(downloadJsonButton);
+  const pre = document.createElement('pre');
+  pre.textContent = jsonString;
+  responseContainer.appendChild(pre);
+}
+
+function showSplitResults(
+  message: string,
+  summary: AnalysisResult['summary'] | undefined,
+  files: { source: string; download: () => void }[]
+) {
+  responseContainer.innerHTML = `<h3>Split Analysis Results</h3>`;
+  const messageParagraph = document.createElement('p');
+  messageParagraph.textContent = message;
+  responseContainer.appendChild(messageParagraph);
+
+  if (summary) {
+    const summaryDiv = document.createElement('div');
+    summaryDiv.innerHTML = `<p><strong>Files Processed:</strong> ${summary.total_files_processed} | <strong>Total Rows:</strong> ${summary.total_rows} | <strong>Total Unique Rows:</strong> ${summary.total_unique_rows}</p>`;
+    responseContainer.appendChild(summaryDiv);
+  }
+
+  const resultsContainer = document.createElement('div');
+  resultsContainer.className = 'split-results-container';
+
+  files.forEach(file => {
+    const item = document.createElement('div');
+    item.className = 'split-result-item';
+
+    const fileNameSpan = document.createElement('span');
+    fileNameSpan.textContent = `Unique rows for ${file.source}`;
+
+    const downloadButton = document.createElement('button');
+    downloadButton.textContent = `Download CSV`;
+    downloadButton.onclick = file.download;
+
+    item.appendChild(fileNameSpan);
+    item.appendChild(downloadButton);
+    resultsContainer.appendChild(item);
+  });
+  responseContainer.appendChild(resultsContainer);
+}
+
+function runLocalAnalysis(selectedData: HistoryEntry[], analysisType: AnalysisType) {
+  const result = analyzeExtractions(selectedData.map(entry => ({
+    source: `extraction_${entry.timestamp}`,
+    data: entry.data,
+  })));
+  recordAnalysis('comparison', selectedData, 'Local (in browser)', result);
+
+  if (analysisType === 'zip') {
+    showZipDownloaded(new Blob([createAnalysisZip(result)], { type: 'application/zip' }));
+  } else if (analysisType === 'json') {
+    showJsonResults(result);
+  } else if (analysisType === 'split') {
+    showSplitResults(result.message, result.summary, result.result_files.map(file => ({
+      source: file.source,
+      download: () => generateCsvDownload(file.unique_rows, `unique_rows_${file.source}.csv`),
+    })));
+  }
+}
+
+async function runRemoteAnalysis(selectedData: HistoryEntry[], analysisType: AnalysisType, signal: AbortSignal) {
+  const client = getApiClient();
+  const files = selectedData.map(entry => ({ name: `extraction_${entry.timestamp}.csv`, data: entry.data }));
+
+  if (analysisType === 'zip') {
+    showZipDownloaded(await client.analyzeZip(files, signal));
+  } else if (analysisType === 'json') {
+    const result = await client.analyzeJson(files, signal);
+    recordAnalysis('comparison', selectedData, `Analysis server (${getApiBaseUrl()})`, result);
+    showJsonResults(result);
+  } else if (analysisType === 'split') {
+    const splitData = await client.analyzeSplit(files, signal);
+    showSplitResults(splitData.message, splitData.summary, splitData.result_files.map(file => ({
+      source: file.source,
+      download: () => downloadSplitFile(client, file.download_url, file.source),
+    })));
+  }
+}
+
+function describeAnalysisError(error: unknown): string {
+  if (error instanceof ApiNetworkError) {
+    return `Could not connect to the analysis server.\n\nPlease ensure the backend server is running at ${error.baseUrl} and is accessible from your browser, or switch the analysis engine to "Local (in browser)".`;
+  }
+  if (error instanceof ApiTimeoutError) {
+    return `${error.message}\n\nThe selection may be too large for the server, or the server is overloaded. Try again, select fewer entries, or switch the analysis engine to "Local (in browser)".`;
+  }
+  if (error instanceof ApiSerializationError) {
+    return `The analysis server encountered an internal data formatting error.\n\n` +
+      `Error Details: ${error.message}\n\n` +
+      `This is a known issue within the backend Python server. It occurs when the server processes numeric data (like LAC or TAC) and fails to convert it into a standard JSON format for the response.\n\n` +
+      `What you can do:\n` +
+      `1. Report this bug for the backend API to be fixed.\n` +
+      `2. As a workaround, try using the "Download ZIP" or "Split Results" analysis types, as they may not be affected by this specific JSON conversion issue.`;
+  }
+  if (error instanceof ApiHttpError && error.isValidationError) {
+    return `The server rejected the request due to invalid data.\n\n` +
+      `Server Message:\n${error.message}\n\n` +
+      `Please verify the following:\n` +
+      `• Ensure the selected files are not empty.\n` +
+      `• Check that all selected files have consistent column headers (LAC, RAT, LOCATION, TAC, MSC/VLR).\n` +
+      `• The server may have other specific data requirements not met by the selection.`;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return 'An unknown error occurred during analysis.';
+}
+
+async function performAnalysis(analysisType: AnalysisType) {
   if (selectedHistoryItems.size < 2) {
     alert('Please select at least two history items to analyze.');
     return;
@@ -367,16 +1642,9 @@ async function performAnalysis(endpoint: string, analysisType: 'zip' | 'json' |
   
   const allHistory = getHistory();
   const selectedData = allHistory.filter(entry => selectedHistoryItems.has(entry.timestamp));
-  
-  const formData = new FormData();
-  selectedData.forEach(entry => {
-    const csvString = dataToCsvString(entry.data);
-    const csvBlob = new Blob([csvString], { type: 'text/csv' });
-    const fileName = `extraction_${entry.timestamp}.csv`;
-    formData.append('files', csvBlob, fileName);
-  });
 
   // Set loading state
+  const abortController = new AbortController();
   responseContainer.innerHTML = '<div class="loader"></div>';
   extractButton.disabled = true;
   clearHistoryButton.disabled = true;
@@ -384,109 +1652,32 @@ async function performAnalysis(endpoint: string, analysisType: 'zip' | 'json' |
   analyzeJsonButton.disabled = true;
   analyzeSplitButton.disabled = true;
   analyzeAiButton.disabled = true;
+  compareSnapshotsButton.disabled = true;
 
   try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method: 'POST',
-      body: formData,
-    });
-
-    if (!response.ok) {
-      await handleApiError(response);
-    }
-    
-    // Handle response based on the analysis type
-    if (analysisType === 'zip') {
-      const zipBlob = await response.blob();
-      const url = URL.createObjectURL(zipBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'analysis_results.zip';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      responseContainer.innerHTML = `<h3>Analysis Complete</h3><p>Your analysis results have been downloaded as "analysis_results.zip".</p>`;
-    } else if (analysisType === 'json') {
-      const jsonData = await response.json();
-      const jsonString = JSON.stringify(jsonData, null, 2);
-      
-      const downloadJsonButton = document.createElement('button');
-      downloadJsonButton.textContent = 'Download JSON';
-      downloadJsonButton.onclick = () => {
-          const blob = new Blob([jsonString], { type: 'application/json' });
-          const url = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = url;
-          a.download = 'analysis_results.json';
-          a.click();
-          URL.revokeObjectURL(url);
-      };
-
-      responseContainer.innerHTML = `<h3>JSON Analysis Results</h3>`;
-      responseContainer.appendChild(downloadJsonButton);
-      const pre = document.createElement('pre');
-      pre.textContent = jsonString;
-      responseContainer.appendChild(pre);
-    } else if (analysisType === 'split') {
-        const splitData = await response.json();
-        responseContainer.innerHTML = `<h3>Split Analysis Results</h3><p>${splitData.message}</p>`;
-
-        const summary = splitData.summary;
-        if (summary) {
-            const summaryDiv = document.createElement('div');
-            summaryDiv.innerHTML = `<p><strong>Files Processed:</strong> ${summary.total_files_processed} | <strong>Total Rows:</strong> ${summary.total_rows} | <strong>Total Unique Rows:</strong> ${summary.total_unique_rows}</p>`;
-            responseContainer.appendChild(summaryDiv);
-        }
-
-        const resultsContainer = document.createElement('div');
-        resultsContainer.className = 'split-results-container';
-
-        splitData.result_files.forEach((file: { source: string; download_url: string }) => {
-            const item = document.createElement('div');
-            item.className = 'split-result-item';
-
-            const fileNameSpan = document.createElement('span');
-            fileNameSpan.textContent = `Unique rows for ${file.source}`;
-            
-            const downloadButton = document.createElement('button');
-            downloadButton.textContent = `Download CSV`;
-            downloadButton.onclick = () => downloadSplitFile(file.download_url, file.source);
-            
-            item.appendChild(fileNameSpan);
-            item.appendChild(downloadButton);
-            resultsContainer.appendChild(item);
-        });
-        responseContainer.appendChild(resultsContainer);
+    if (getAnalysisMode() === 'local') {
+      // Yield once so the loader is painted before the comparison runs
+      await new Promise(resolve => setTimeout(resolve, 0));
+      runLocalAnalysis(selectedData, analysisType);
+    } else {
+      const cancelButton = document.createElement('button');
+      cancelButton.className = 'cancel-request-button';
+      cancelButton.textContent = 'Cancel';
+      cancelButton.onclick = () => abortController.abort();
+      responseContainer.appendChild(cancelButton);
+      await runRemoteAnalysis(selectedData, analysisType, abortController.signal);
     }
-
   } catch (error) {
-    console.error('Analysis API Error:', error);
-    let friendlyMessage = 'An unknown error occurred during analysis.';
-
-    if (error instanceof TypeError && error.message === 'Failed to fetch') {
-      friendlyMessage = `Could not connect to the analysis server.\n\nPlease ensure the backend server is running at ${API_BASE_URL} and is accessible from your browser.`;
-    } else if (error instanceof Error) {
-        if (error.message.includes('Object of type int64 is not JSON serializable')) {
-            friendlyMessage = `The analysis server encountered an internal data formatting error.\n\n` +
-                              `Error Details: ${error.message}\n\n` +
-                              `This is a known issue within the backend Python server. It occurs when the server processes numeric data (like LAC or TAC) and fails to convert it into a standard JSON format for the response.\n\n` +
-                              `What you can do:\n` +
-                              `1. Report this bug for the backend API to be fixed.\n` +
-                              `2. As a workaround, try using the "Download ZIP" or "Split Results" analysis types, as they may not be affected by this specific JSON conversion issue.`;
-        } 
-        else if (error.message.includes('Server responded with status 400') || error.message.includes('Server responded with status 422')) {
-             friendlyMessage = `The server rejected the request due to invalid data.\n\n` +
-                              `Server Message:\n${error.message}\n\n` +
-                              `Please verify the following:\n` +
-                              `• Ensure the selected files are not empty.\n` +
-                              `• Check that all selected files have consistent column headers (LAC, RAT, LOCATION, TAC, MSC/VLR).\n` +
-                              `• The server may have other specific data requirements not met by the selection.`;
-        } else {
-            friendlyMessage = error.message;
-        }
+    if (error instanceof ApiCancelledError) {
+      responseContainer.textContent = 'Analysis cancelled.';
+      return;
     }
-    responseContainer.innerHTML = `<h3>Analysis Error</h3><pre class="error-message">${friendlyMessage}</pre>`;
+    console.error('Analysis API Error:', error);
+    responseContainer.innerHTML = '<h3>Analysis Error</h3>';
+    const errorText = document.createElement('pre');
+    errorText.className = 'error-message';
+    errorText.textContent = describeAnalysisError(error);
+    responseContainer.appendChild(errorText);
   } finally {
     extractButton.disabled = false;
     clearHistoryButton.disabled = false;
@@ -494,60 +1685,100 @@ async function performAnalysis(endpoint: string, analysisType: 'zip' | 'json' |
   }
 }
 
+function getAiModelId(): AiModelId {
+  return localStorage.getItem(AI_MODEL_STORAGE_KEY) === 'stub' ? 'stub' : 'gemini';
+}
+
+const AI_RESULT_COLUMNS: ColumnDef[] = [
+  ...locationAreaParser.columns,
+  { key: 'presentIn', header: 'PRESENT IN' },
+  { key: 'missingFrom', header: 'MISSING FROM' },
+  { key: 'suspectedCause', header: 'SUSPECTED CAUSE' },
+];
+
+function showAiResults(result: AiAnalysisResult, modelName: string) {
+  responseContainer.innerHTML = '<h3>AI Analysis: Discrepancies Found</h3>';
+
+  const summary = document.createElement('p');
+  summary.textContent = `${result.discrepancies.length} discrepancies reported by ${modelName} ` +
+    `across ${result.chunkCount} LAC range${result.chunkCount === 1 ? '' : 's'}.`;
+  responseContainer.appendChild(summary);
+
+  if (result.failures.length > 0) {
+    const failures = document.createElement('p');
+    failures.className = 'error-message';
+    failures.textContent = `${result.failures.length} range(s) could not be analyzed and are missing from the results: ` +
+      result.failures.map(({ chunk, message }) => `LAC ${chunk.fromLac}–${chunk.toLac} (${message})`).join('; ');
+    responseContainer.appendChild(failures);
+  }
+
+  if (result.discrepancies.length > 0) {
+    const grid = createDataGrid({
+      columns: AI_RESULT_COLUMNS,
+      rows: result.discrepancies.map(d => ({
+        ...d.record,
+        presentIn: d.presentIn.join(', '),
+        missingFrom: d.missingFrom.join(', '),
+        suspectedCause: d.suspectedCause,
+      })),
+      exportFileName: 'ai_discrepancies.csv',
+    });
+    responseContainer.appendChild(grid.element);
+
+    const exportJsonButton = document.createElement('button');
+    exportJsonButton.className = 'ai-export-button';
+    exportJsonButton.textContent = 'Export JSON';
+    exportJsonButton.onclick = () => {
+      downloadBlob(new Blob([JSON.stringify(result.discrepancies, null, 2)], { type: 'application/json' }), 'ai_discrepancies.json');
+    };
+    responseContainer.appendChild(exportJsonButton);
+  }
+}
+
 async function performAiAnalysis() {
   if (selectedHistoryItems.size < 2) {
     alert('Please select at least two history items to analyze with AI.');
     return;
   }
 
-  const allHistory = getHistory();
-  const selectedData = allHistory.filter(entry => selectedHistoryItems.has(entry.timestamp));
+  const snapshots = getSelectedSnapshots();
 
   // Set loading state
   responseContainer.innerHTML = '<div class="loader"></div>';
+  const progressText = document.createElement('p');
+  progressText.className = 'ai-progress';
+  responseContainer.appendChild(progressText);
   extractButton.disabled = true;
   clearHistoryButton.disabled = true;
   analyzeZipButton.disabled = true;
   analyzeJsonButton.disabled = true;
   analyzeSplitButton.disabled = true;
   analyzeAiButton.disabled = true;
+  compareSnapshotsButton.disabled = true;
+  downloadCsvButton.classList.add('hidden');
 
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const promptParts: string[] = [
-      'You are a data analyst. You will be provided with several datasets in CSV format, each from a different file.',
-      'Your task is to analyze these datasets and identify any rows that are present in some files but are missing in others.',
-      'These datasets are expected to be very similar, so any differences are significant and should be highlighted.',
-      'List the unique or missing rows and clearly specify which file(s) they were found in and which file(s) they were missing from.',
-      'The columns are LAC, RAT, LOCATION, TAC, and MSC/VLR.',
-      'Format your output clearly for easy reading. Here are the datasets:\n'
-    ];
-
-    selectedData.forEach(entry => {
-      const fileName = `extraction_${entry.timestamp}.csv`;
-      const csvString = dataToCsvString(entry.data);
-      promptParts.push(`--- START OF FILE: ${fileName} ---\n${csvString}\n--- END OF FILE: ${fileName} ---\n`);
-    });
-    
-    const fullPrompt = promptParts.join('\n');
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: fullPrompt,
-    });
-
-    const aiResponseText = response.text;
-
-    responseContainer.innerHTML = `<h3>AI Analysis: Discrepancies Found</h3><pre class="ai-response">${aiResponseText}</pre>`;
-
+    const model = getAiModelId() === 'stub' ? createStubModel() : createGeminiModel(process.env.API_KEY);
+    const result = await analyzeDiscrepancies(
+      snapshots,
+      model,
+      (completed, total) => {
+        progressText.textContent = `Analyzed ${completed} of ${total} LAC range${total === 1 ? '' : 's'} with ${model.name}…`;
+      }
+    );
+    recordAnalysis('ai-discrepancies', getHistory().filter(entry => selectedHistoryItems.has(entry.timestamp)), model.name, result);
+    showAiResults(result, model.name);
   } catch (error) {
     console.error('AI Analysis Error:', error);
     let errorMessage = 'An error occurred while communicating with the AI model. Please check the console for details.';
     if (error instanceof Error) {
         errorMessage = error.message;
     }
-    responseContainer.innerHTML = `<h3>AI Analysis Error</h3><pre class="error-message">${errorMessage}</pre>`;
+    responseContainer.innerHTML = '<h3>AI Analysis Error</h3>';
+    const errorText = document.createElement('pre');
+    errorText.className = 'error-message';
+    errorText.textContent = errorMessage;
+    responseContainer.appendChild(errorText);
   } finally {
     extractButton.disabled = false;
     clearHistoryButton.disabled = false;
@@ -555,11 +1786,301 @@ async function performAiAnalysis() {
   }
 }
 
-analyzeZipButton.addEventListener('click', () => performAnalysis('/analyze-csv-files/', 'zip'));
-analyzeJsonButton.addEventListener('click', () => performAnalysis('/analyze-csv-files/with-json/', 'json'));
-analyzeSplitButton.addEventListener('click', () => performAnalysis('/analyze-csv-files/split/', 'split'));
+function showQueryResult(question: string, result: QueryResult) {
+  responseContainer.innerHTML = '<h3>Query Result</h3>';
+
+  const questionText = document.createElement('p');
+  questionText.className = 'query-question';
+  questionText.textContent = question;
+  const answer = document.createElement('div');
+  answer.className = 'query-answer';
+  answer.textContent = result.answer || 'The model returned an empty answer.';
+  responseContainer.appendChild(questionText);
+  responseContainer.appendChild(answer);
+
+  if (result.toolCalls.length > 0) {
+    const details = document.createElement('details');
+    details.className = 'query-tool-calls';
+    const summary = document.createElement('summary');
+    summary.textContent = `Local tool calls (${result.toolCalls.length})`;
+    const list = document.createElement('ol');
+    result.toolCalls.forEach(call => {
+      const item = document.createElement('li');
+      const code = document.createElement('code');
+      code.textContent = `${call.name}(${JSON.stringify(call.args)})`;
+      item.appendChild(code);
+      item.appendChild(document.createTextNode(` → ${call.summary}`));
+      list.appendChild(item);
+    });
+    details.appendChild(summary);
+    details.appendChild(list);
+    responseContainer.appendChild(details);
+  }
+
+  if (result.rows.length > 0) {
+    const grid = createDataGrid({
+      columns: [{ key: SNAPSHOT_FIELD, header: 'SNAPSHOT' }, ...locationAreaParser.columns],
+      rows: result.rows,
+      exportFileName: 'query_result.csv',
+    });
+    responseContainer.appendChild(grid.element);
+  }
+}
+
+queryForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const question = queryInput.value.trim();
+  const snapshots = getSelectedSnapshots();
+  if (!question) {
+    return;
+  }
+  if (snapshots.length === 0) {
+    alert('Please select at least one history item to query.');
+    return;
+  }
+
+  responseContainer.innerHTML = '<div class="loader"></div>';
+  const progressText = document.createElement('p');
+  progressText.className = 'ai-progress';
+  progressText.textContent = 'Asking Gemini…';
+  responseContainer.appendChild(progressText);
+  queryButton.disabled = true;
+  downloadCsvButton.classList.add('hidden');
+
+  try {
+    const result = await runNaturalLanguageQuery(createGeminiClient(process.env.API_KEY), question, snapshots, call => {
+      progressText.textContent = `Ran ${call.name} locally: ${call.summary}`;
+    });
+    showQueryResult(question, result);
+  } catch (error) {
+    console.error('Query Error:', error);
+    responseContainer.innerHTML = '<h3>Query Error</h3>';
+    const errorText = document.createElement('pre');
+    errorText.className = 'error-message';
+    errorText.textContent = error instanceof Error ? error.message : 'An error occurred while communicating with the AI model.';
+    responseContainer.appendChild(errorText);
+  } finally {
+    updateAnalyzeButtonState();
+  }
+});
+
+analyzeZipButton.addEventListener('click', () => performAnalysis('zip'));
+analyzeJsonButton.addEventListener('click', () => performAnalysis('json'));
+analyzeSplitButton.addEventListener('click', () => performAnalysis('split'));
 analyzeAiButton.addEventListener('click', performAiAnalysis);
 
+compareSnapshotsButton.addEventListener('click', () => {
+  const selectedData = getHistory().filter(entry => selectedHistoryItems.has(entry.timestamp));
+  if (selectedData.length !== 2) {
+    alert('Please select exactly two history items to compare.');
+    return;
+  }
+  renderDiffView(responseContainer, selectedData[0], selectedData[1], getColumnSettings());
+  downloadCsvButton.classList.add('hidden');
+});
+
+showExportSettings();
+[exportFormatSelect, exportDelimiterSelect, exportFileNameInput].forEach(control => {
+  control.addEventListener('change', saveExportSettings);
+});
+
+columnProfileSelect.addEventListener('change', () => {
+  const profile = getColumnProfiles().find(p => p.name === columnProfileSelect.value);
+  if (profile) {
+    saveColumnSettings({ attributes: profile.attributes, keyFields: profile.keyFields });
+  } else {
+    deleteColumnProfileButton.disabled = true;
+  }
+});
+
+saveColumnProfileButton.addEventListener('click', () => {
+  const name = prompt('Profile name:', columnProfileSelect.value)?.trim();
+  if (!name) {
+    return;
+  }
+  const profiles = getColumnProfiles().filter(profile => profile.name !== name);
+  localStorage.setItem(COLUMN_PROFILES_STORAGE_KEY, JSON.stringify([...profiles, { name, ...getColumnSettings() }]));
+  showColumnSettings();
+});
+
+deleteColumnProfileButton.addEventListener('click', () => {
+  const name = columnProfileSelect.value;
+  if (!name || !confirm(`Delete the column profile "${name}"?`)) {
+    return;
+  }
+  localStorage.setItem(COLUMN_PROFILES_STORAGE_KEY, JSON.stringify(getColumnProfiles().filter(profile => profile.name !== name)));
+  showColumnSettings();
+});
+
+dashboardButton.addEventListener('click', () => {
+  const snapshots = getSelectedSnapshots();
+  if (snapshots.length === 0) {
+    alert('Please select at least one history item for the dashboard.');
+    return;
+  }
+  renderDashboard(responseContainer, snapshots);
+  downloadCsvButton.classList.add('hidden');
+});
+
+reconcileButton.addEventListener('click', () => {
+  const plan = getSelectedPlan();
+  const [snapshot] = getSelectedSnapshots();
+  if (!plan || !snapshot || selectedHistoryItems.size !== 1) {
+    alert('Please choose a reference plan and select exactly one history item to reconcile.');
+    return;
+  }
+  renderReconciliation(responseContainer, plan, snapshot);
+  downloadCsvButton.classList.add('hidden');
+});
+
+// The SGSN dump and the MME export are usually separate history entries, so
+// the records of every selected entry are pooled
+correlateButton.addEventListener('click', () => {
+  const entries = getHistory().filter(entry => selectedHistoryItems.has(entry.timestamp));
+  if (entries.length === 0) {
+    alert('Please select the SGSN and MME history items to correlate.');
+    return;
+  }
+  const recordsOf = (parserId: string) => entries.flatMap(entry => entry.records?.[parserId] ?? []);
+  renderCorrelation(responseContainer, {
+    locationAreas: entries.flatMap(entry => entry.data),
+    trackingAreas: recordsOf(trackingAreaParser.id) as TrackingAreaRecord[],
+    mscPools: recordsOf(mscPoolParser.id) as MscPoolRecord[],
+    taiLists: recordsOf(taiListParser.id) as TaiListRecord[],
+  }, entries.map(entryDisplayName));
+  downloadCsvButton.classList.add('hidden');
+});
+
+timelineButton.addEventListener('click', () => {
+  const snapshots = getHistory().map(entry => ({
+    timestamp: entry.timestamp,
+    name: entryDisplayName(entry),
+    node: entry.source?.nodeName ?? '',
+    data: entry.data,
+  }));
+  renderTimeline(responseContainer, snapshots, getColumnSettings());
+  downloadCsvButton.classList.add('hidden');
+});
+
+// Several selected entries are merged (newest rows win per key), e.g. the
+// partial dumps of a node that were extracted separately
+promoteBaselineButton.addEventListener('click', async () => {
+  const entries = getHistory().filter(entry => selectedHistoryItems.has(entry.timestamp));
+  if (entries.length === 0) {
+    alert('Please select the history items to promote to a baseline.');
+    return;
+  }
+  const nodes = [...new Set(entries.flatMap(entry => entry.source ? [entry.source.nodeName] : []))];
+  const node = nodes.length === 1 ? nodes[0] : prompt('Node this baseline applies to:', nodes[0] ?? '')?.trim();
+  if (!node) {
+    return;
+  }
+  const version = nextBaselineVersion(baselineCache, node);
+  if (version > 1 && !confirm(`Replace the current baseline of ${node} (v${version - 1})? Earlier versions are kept.`)) {
+    return;
+  }
+  const name = prompt('Baseline name:', `Approved ${new Date().toLocaleDateString()}`)?.trim();
+  if (!name) {
+    return;
+  }
+  await storeBaseline({
+    id: Date.now(),
+    node,
+    name,
+    version,
+    sourceTimestamps: entries.map(entry => entry.timestamp),
+    rows: entries.length === 1 ? entries[0].data : mergeSnapshots(entries, driftFields(getColumnSettings(), entries.map(entry => entry.data)).keyFields),
+  });
+});
+
+baselineSelect.addEventListener('change', () => {
+  deleteBaselineButton.disabled = baselineSelect.value === '';
+});
+
+deleteBaselineButton.addEventListener('click', async () => {
+  const baseline = baselineCache.find(b => String(b.id) === baselineSelect.value);
+  if (!baseline || !confirm(`Delete ${baselineLabel(baseline)}? If it is the current version, the previous one becomes current again.`)) {
+    return;
+  }
+  try {
+    await deleteBaseline(baseline.id);
+  } catch (error) {
+    showHistoryError(error);
+  }
+  await refreshBaselines();
+});
+
+// Exports the selected entries when the user wants only those, otherwise the
+// whole history, with the baselines of their nodes and every plan
+exportWorkspaceButton.addEventListener('click', () => {
+  const onlySelected = selectedHistoryItems.size > 0
+    && confirm(`Export only the ${selectedHistoryItems.size} selected history items? Choose Cancel to export the whole history.`);
+  const entries = getHistory().filter(entry => !onlySelected || selectedHistoryItems.has(entry.timestamp));
+  const timestamps = new Set(entries.map(entry => entry.timestamp));
+  const nodes = new Set(entries.flatMap(entry => entry.source ? [entry.source.nodeName] : []));
+  const bundle = createWorkspaceBundle({
+    entries,
+    selection: [...selectedHistoryItems].filter(timestamp => timestamps.has(timestamp)),
+    analyses: sessionAnalyses.filter(analysis => analysis.sources.every(timestamp => timestamps.has(timestamp))),
+    columnSettings: getColumnSettings(),
+    columnProfiles: getColumnProfiles(),
+    plans: planCache,
+    baselines: baselineCache.filter(baseline => nodes.has(baseline.node)),
+  });
+  downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), `workspace_${new Date().toISOString().slice(0, 10)}.json`);
+});
+
+planSelect.addEventListener('change', () => {
+  localStorage.setItem(SELECTED_PLAN_STORAGE_KEY, planSelect.value);
+  deletePlanButton.disabled = !getSelectedPlan();
+  updateAnalyzeButtonState();
+});
+
+deletePlanButton.addEventListener('click', async () => {
+  const plan = getSelectedPlan();
+  if (!plan || !confirm(`Delete the reference plan "${plan.name}"? This cannot be undone.`)) {
+    return;
+  }
+  try {
+    await deletePlanInventory(plan.id);
+  } catch (error) {
+    showHistoryError(error);
+  }
+  await refreshPlans();
+});
+
+analysisModeSelect.value = getAnalysisMode();
+analysisModeSelect.addEventListener('change', () => {
+  localStorage.setItem(ANALYSIS_MODE_STORAGE_KEY, analysisModeSelect.value);
+});
+
+apiBaseUrlInput.value = getApiBaseUrl();
+apiBaseUrlInput.placeholder = DEFAULT_API_BASE_URL;
+apiBaseUrlInput.addEventListener('change', () => {
+  const baseUrl = apiBaseUrlInput.value.trim();
+  if (baseUrl && !/^https?:\/\//i.test(baseUrl)) {
+    alert('The server URL must start with http:// or https://.');
+    apiBaseUrlInput.value = getApiBaseUrl();
+    return;
+  }
+  if (baseUrl) {
+    localStorage.setItem(API_BASE_URL_STORAGE_KEY, baseUrl);
+  } else {
+    localStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+  }
+  apiBaseUrlInput.value = getApiBaseUrl();
+  checkApiHealth();
+});
+apiHealthBadge.addEventListener('click', checkApiHealth);
+checkApiHealth();
+
+aiModelSelect.value = getAiModelId();
+aiModelSelect.addEventListener('change', () => {
+  localStorage.setItem(AI_MODEL_STORAGE_KEY, aiModelSelect.value);
+});
+
 
 // Initial render of history on page load
-document.addEventListener('DOMContentLoaded', renderHistory);
\ No newline at end of file
+document.addEventListener('DOMContentLoaded', () => {
+  initializeHistory().then(refreshPlans).then(refreshBaselines);
+});
\ No newline at end of file
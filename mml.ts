@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData } from './types.ts';
+import { diffRecords, recordKey, type RecordDiff } from './diff.ts';
+import { locationAreaParser, readFlag, splitGanValue } from './parsers.ts';
+
+// Node commands address a location area by LAC and access type, so that is
+// the key the script is generated on regardless of the diff view's key.
+const MML_KEY_FIELDS = ['lac', 'rat'];
+const LA_FIELDS = locationAreaParser.columns.map(column => column.key);
+
+export type MmlScript = {
+  script: string;
+  counts: { create: number; delete: number; modify: number };
+};
+
+export type RoundTripResult = {
+  ok: boolean;
+  // Differences between the re-parsed result and the target dataset
+  mismatches: RecordDiff<ExtractedData>[];
+};
+
+// Thrown when a dataset has several rows with one LAC and access type: node
+// commands cannot tell them apart, so no script would address the right row
+export class MmlDuplicateKeyError extends Error {
+  readonly keys: string[];
+
+  constructor(keys: string[]) {
+    super(`Cannot generate an MML script: ${keys.length} LAC / access type pairs occur more than once (${keys.slice(0, 10).join(', ')}). Resolve the duplicates first.`);
+    this.name = 'MmlDuplicateKeyError';
+    this.keys = keys;
+  }
+}
+
+function duplicateKeys(rows: ExtractedData[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  rows.forEach(row => {
+    const key = recordKey(row, MML_KEY_FIELDS);
+    if (seen.has(key)) {
+      duplicates.add(key);
+    }
+    seen.add(key);
+  });
+  return [...duplicates];
+}
+
+export function formatCreateLa(row: ExtractedData): string {
+  return `create_la -lac ${row.lac} -at ${row.rat} -gan ${row.location}_${row.tac} -vlr ${row.msc}`;
+}
+
+export function formatDeleteLa(row: ExtractedData): string {
+  return `delete_la -lac ${row.lac} -at ${row.rat}`;
+}
+
+export function formatModifyLa(row: ExtractedData): string {
+  return `modify_la -lac ${row.lac} -at ${row.rat} -gan ${row.location}_${row.tac} -vlr ${row.msc}`;
+}
+
+// Builds the commands that turn `current` (what the node has) into `target`
+// (what it should have): deletes first, then modifications, then creations.
+// Throws MmlDuplicateKeyError when either side has duplicate keys.
+export function generateMmlScript(current: ExtractedData[], target: ExtractedData[]): MmlScript {
+  const duplicates = [...new Set([...duplicateKeys(current), ...duplicateKeys(target)])];
+  if (duplicates.length > 0) {
+    throw new MmlDuplicateKeyError(duplicates);
+  }
+  const diff = diffRecords(current, target, MML_KEY_FIELDS, LA_FIELDS);
+  const deletes = diff.entries.filter(e => e.status === 'removed').map(e => formatDeleteLa(e.before!));
+  const modifies = diff.entries.filter(e => e.status === 'modified').map(e => formatModifyLa(e.after!));
+  const creates = diff.entries.filter(e => e.status === 'added').map(e => formatCreateLa(e.after!));
+
+  const lines = [
+    `# Generated ${new Date().toISOString()}`,
+    `# ${deletes.length} delete, ${modifies.length} modify, ${creates.length} create`,
+  ];
+  if (deletes.length > 0) {
+    lines.push('', '# Remove location areas not in the target', ...deletes);
+  }
+  if (modifies.length > 0) {
+    lines.push('', '# Update changed MSC/VLR or GAN', ...modifies);
+  }
+  if (creates.length > 0) {
+    lines.push('', '# Create missing location areas', ...creates);
+  }
+
+  return {
+    script: lines.join('\n'),
+    counts: { create: creates.length, delete: deletes.length, modify: modifies.length },
+  };
+}
+
+// Replays a script against `current` using the same flag syntax the parser reads
+export function applyMmlScript(current: ExtractedData[], script: string): ExtractedData[] {
+  let result = [...current];
+  const sameKey = (row: ExtractedData, lac: string | null, rat: string | null) => row.lac === lac && row.rat === rat;
+
+  for (const line of script.split('\n')) {
+    const command = line.trim().split(/\s+/)[0]?.toLowerCase();
+    const lac = readFlag(line, 'lac');
+    const rat = readFlag(line, 'at');
+
+    if (command === 'create_la') {
+      const record = locationAreaParser.parse(line);
+      if (record) {
+        result.push(record);
+      }
+    } else if (command === 'delete_la') {
+      const index = result.findIndex(row => sameKey(row, lac, rat));
+      if (index >= 0) {
+        result.splice(index, 1);
+      }
+    } else if (command === 'modify_la') {
+      const index = result.findIndex(row => sameKey(row, lac, rat));
+      const gan = splitGanValue(readFlag(line, 'gan') ?? '');
+      const msc = readFlag(line, 'vlr') ?? readFlag(line, 'msc');
+      if (index >= 0) {
+        result[index] = {
+          ...result[index],
+          ...(gan ?? {}),
+          ...(msc ? { msc } : {}),
+        };
+      }
+    }
+  }
+  return result;
+}
+
+export function verifyRoundTrip(current: ExtractedData[], target: ExtractedData[], script: string): RoundTripResult {
+  const replayed = applyMmlScript(current, script);
+  const diff = diffRecords(replayed, target, LA_FIELDS, LA_FIELDS);
+  const mismatches = diff.entries.filter(entry => entry.status !== 'unchanged');
+  return { ok: mismatches.length === 0, mismatches };
+}
@@ -0,0 +1,289 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Stand-in for the Python analysis service, for development and for testing
+// the frontend's error handling. Run with `npm run mock-server`; options:
+//
+//   --port=8000        listen port (or PORT)
+//   --delay=0          milliseconds to wait before every response
+//   --fail=none        none | 400 | 422 | 500 | 503 | int64 (applied to the analysis endpoints)
+//   --fail-count=0     fail only the next N analysis requests, then recover
+//                      (0 = fail every request while --fail is set)
+//
+// The mode can also be changed at runtime without a restart:
+//   curl -X POST localhost:8000/__mock/config -d '{"fail":"422","delayMs":2000}'
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { ExtractedData } from './types.ts';
+import { analyzeExtractions, createAnalysisZip, type AnalysisSource } from './analysis.ts';
+import { dataToCsvString } from './csv.ts';
+import { applyHeaderMapping, guessHeaderMapping, IMPORT_FIELDS, parseImportText } from './importers.ts';
+
+type FailureMode = 'none' | '400' | '422' | '500' | '503' | 'int64';
+
+type MockConfig = {
+  fail: FailureMode;
+  // Remaining requests to fail; null fails every request
+  failCount: number | null;
+  delayMs: number;
+};
+
+type JsonBody = Record<string, unknown> | unknown[];
+
+const FAILURE_MODES: FailureMode[] = ['none', '400', '422', '500', '503', 'int64'];
+const VERSION = 'mock-1';
+// Split results are kept for this long so their download URLs stay valid
+const SPLIT_RESULT_TTL_MS = 60 * 60 * 1000;
+
+class BadRequestError extends Error {
+  readonly status: number;
+  readonly body: JsonBody;
+
+  constructor(status: number, body: JsonBody) {
+    super(`Request rejected with status ${status}`);
+    this.name = 'BadRequestError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+function readOption(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function parseFailureMode(value: string | undefined): FailureMode {
+  if (value === undefined) {
+    return 'none';
+  }
+  if (!FAILURE_MODES.includes(value as FailureMode)) {
+    throw new Error(`Unknown failure mode "${value}". Use one of: ${FAILURE_MODES.join(', ')}.`);
+  }
+  return value as FailureMode;
+}
+
+function parseFailCount(value: string | undefined): number | null {
+  const count = Number(value ?? 0);
+  return count > 0 ? count : null;
+}
+
+const config: MockConfig = {
+  fail: parseFailureMode(readOption('fail')),
+  failCount: parseFailCount(readOption('fail-count')),
+  delayMs: Number(readOption('delay') ?? 0),
+};
+const port = Number(readOption('port') ?? process.env.PORT ?? 8000);
+
+// Split results by id, each holding one CSV per source
+const splitResults = new Map<string, { created: number; files: Map<string, string> }>();
+
+function sendJson(res: ServerResponse, status: number, body: JsonBody) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendText(res: ServerResponse, status: number, body: string) {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(body);
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Parses the multipart `files` field the frontend sends, one CSV per history entry
+async function readUploadedFiles(req: IncomingMessage): Promise<AnalysisSource[]> {
+  const contentType = req.headers['content-type'] ?? '';
+  if (!contentType.startsWith('multipart/form-data')) {
+    throw new BadRequestError(400, { detail: 'Expected a multipart/form-data body with one or more "files" parts.' });
+  }
+  const request = new Request('http://mock.local/', { method: 'POST', headers: { 'Content-Type': contentType }, body: await readBody(req) });
+  const files = (await request.formData()).getAll('files').filter((part): part is File => typeof part !== 'string');
+  if (files.length === 0) {
+    throw new BadRequestError(422, {
+      detail: [{ loc: ['body', 'files'], msg: 'field required', type: 'value_error.missing' }],
+    });
+  }
+  if (files.length < 2) {
+    throw new BadRequestError(400, { detail: 'At least two files are required for a comparison.' });
+  }
+
+  return Promise.all(files.map(async file => {
+    const table = parseImportText(file.name, await file.text());
+    const mapping = guessHeaderMapping(table.headers);
+    const missing = IMPORT_FIELDS.filter(({ key }) => mapping[key] === null).map(({ header }) => header);
+    if (missing.length > 0) {
+      throw new BadRequestError(422, { detail: `${file.name} is missing the columns: ${missing.join(', ')}` });
+    }
+    const data: ExtractedData[] = applyHeaderMapping(table, mapping);
+    return { source: file.name.replace(/\.csv$/i, ''), data };
+  }));
+}
+
+// Returns true when a simulated failure was sent instead of the real response
+function sendConfiguredFailure(res: ServerResponse, pathname: string): boolean {
+  if (config.fail === 'none' || (config.fail === 'int64' && pathname !== '/analyze-csv-files/with-json/')) {
+    return false;
+  }
+  const mode = config.fail;
+  if (config.failCount !== null) {
+    config.failCount--;
+    if (config.failCount <= 0) {
+      console.log(`Failure mode "${mode}" used up; recovering`);
+      config.fail = 'none';
+      config.failCount = null;
+    }
+  }
+
+  switch (mode) {
+    case '400':
+      sendJson(res, 400, { detail: 'Simulated bad request: the uploaded files could not be compared.' });
+      break;
+    case '422':
+      sendJson(res, 422, { detail: [{ loc: ['body', 'files', 0], msg: 'Simulated validation error: inconsistent column headers', type: 'value_error' }] });
+      break;
+    case '503':
+      sendText(res, 503, 'Service Unavailable');
+      break;
+    case 'int64':
+      sendJson(res, 500, { detail: 'TypeError: Object of type int64 is not JSON serializable' });
+      break;
+    default:
+      sendText(res, 500, 'Internal Server Error');
+  }
+  return true;
+}
+
+function pruneSplitResults() {
+  const cutoff = Date.now() - SPLIT_RESULT_TTL_MS;
+  splitResults.forEach((result, id) => {
+    if (result.created < cutoff) {
+      splitResults.delete(id);
+    }
+  });
+}
+
+async function handleAnalysis(req: IncomingMessage, res: ServerResponse, pathname: string) {
+  if (sendConfiguredFailure(res, pathname)) {
+    return;
+  }
+  const result = analyzeExtractions(await readUploadedFiles(req));
+
+  if (pathname === '/analyze-csv-files/') {
+    res.writeHead(200, { 'Content-Type': 'application/zip', 'Content-Disposition': 'attachment; filename="analysis_results.zip"' });
+    res.end(createAnalysisZip(result));
+  } else if (pathname === '/analyze-csv-files/with-json/') {
+    sendJson(res, 200, result);
+  } else {
+    pruneSplitResults();
+    const id = randomUUID();
+    splitResults.set(id, {
+      created: Date.now(),
+      files: new Map(result.result_files.map(file => [file.source, dataToCsvString(file.unique_rows)])),
+    });
+    sendJson(res, 200, {
+      message: result.message,
+      summary: result.summary,
+      result_files: result.result_files.map(file => ({
+        source: file.source,
+        download_url: `/download/${id}/${encodeURIComponent(file.source)}`,
+      })),
+    });
+  }
+}
+
+async function handleConfig(req: IncomingMessage, res: ServerResponse) {
+  let changes: { fail?: string; failCount?: number; delayMs?: number };
+  try {
+    changes = JSON.parse((await readBody(req)).toString('utf-8') || '{}');
+    if (changes.fail !== undefined) {
+      config.fail = parseFailureMode(changes.fail);
+    }
+  } catch (error) {
+    throw new BadRequestError(400, { detail: error instanceof Error ? error.message : 'Invalid configuration.' });
+  }
+  if (changes.failCount !== undefined) {
+    config.failCount = parseFailCount(String(changes.failCount));
+  }
+  if (changes.delayMs !== undefined) {
+    config.delayMs = Number(changes.delayMs);
+  }
+  console.log('Mock configuration:', config);
+  sendJson(res, 200, config);
+}
+
+async function route(req: IncomingMessage, res: ServerResponse) {
+  const { pathname } = new URL(req.url ?? '/', 'http://mock.local');
+
+  if (req.method === 'GET' && pathname === '/health') {
+    sendJson(res, 200, { status: 'ok', version: VERSION });
+    return;
+  }
+  if (pathname === '/__mock/config') {
+    if (req.method === 'POST') {
+      await handleConfig(req, res);
+    } else {
+      sendJson(res, 200, config);
+    }
+    return;
+  }
+
+  if (config.delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, config.delayMs));
+  }
+
+  if (req.method === 'POST' && ['/analyze-csv-files/', '/analyze-csv-files/with-json/', '/analyze-csv-files/split/'].includes(pathname)) {
+    await handleAnalysis(req, res, pathname);
+    return;
+  }
+
+  const download = pathname.match(/^\/download\/([^/]+)\/([^/]+)$/);
+  if (req.method === 'GET' && download) {
+    const csv = splitResults.get(download[1])?.files.get(decodeURIComponent(download[2]));
+    if (csv === undefined) {
+      sendJson(res, 404, { detail: 'Split result not found or expired.' });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/csv', 'Content-Disposition': `attachment; filename="unique_rows_${download[2]}.csv"` });
+    res.end(csv);
+    return;
+  }
+
+  sendJson(res, 404, { detail: 'Not Found' });
+}
+
+const server = createServer((req, res) => {
+  // The frontend runs on another port, so every response needs CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const started = Date.now();
+  route(req, res)
+    .catch(error => {
+      if (error instanceof BadRequestError) {
+        sendJson(res, error.status, error.body);
+      } else {
+        console.error(error);
+        sendText(res, 500, error instanceof Error ? error.message : 'Internal Server Error');
+      }
+    })
+    .finally(() => {
+      console.log(`${req.method} ${req.url} -> ${res.statusCode} (${Date.now() - started} ms)`);
+    });
+});
+
+server.listen(port, () => {
+  console.log(`Mock analysis server listening on http://localhost:${port}`);
+  console.log('Mock configuration:', config);
+});
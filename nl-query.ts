@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Type, type Content, type FunctionDeclaration, type GoogleGenAI, type Schema } from '@google/genai';
+import type { ExtractedData, ParsedRecord } from './types.ts';
+import { fieldValue, locationAreaParser, normaliseCode } from './parsers.ts';
+import { GEMINI_MODEL } from './ai-models.ts';
+
+export type QuerySnapshot = {
+  name: string;
+  data: ExtractedData[];
+};
+
+export type QueryOperator = 'equals' | 'not_equals' | 'contains' | 'starts_with' | 'in' | 'greater_than' | 'less_than';
+
+export type QueryCondition = {
+  field: string;
+  operator: QueryOperator;
+  // For "in", a comma-separated list of values
+  value: string;
+};
+
+export type QueryToolCall = {
+  name: string;
+  args: Record<string, unknown>;
+  // Short description of what the tool returned, for the audit trail
+  summary: string;
+};
+
+export type QueryResult = {
+  answer: string;
+  // Rows behind the answer: those returned by the last row-producing tool call
+  rows: ParsedRecord[];
+  toolCalls: QueryToolCall[];
+};
+
+type ToolOutput = {
+  response: Record<string, unknown>;
+  rows?: ParsedRecord[];
+  summary: string;
+};
+
+// Each row carries the name of the snapshot it came from
+export const SNAPSHOT_FIELD = 'snapshot';
+export const QUERY_FIELDS = [SNAPSHOT_FIELD, ...locationAreaParser.columns.map(c => c.key)];
+const OPERATORS: QueryOperator[] = ['equals', 'not_equals', 'contains', 'starts_with', 'in', 'greater_than', 'less_than'];
+
+// Limits on what is sent back to the model; the full result stays local
+const MAX_SAMPLE_ROWS = 20;
+const MAX_GROUPS = 100;
+const MAX_TOOL_ROUNDS = 6;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const FIELD_SCHEMA: Schema = { type: Type.STRING, enum: QUERY_FIELDS };
+
+const CONDITIONS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  description: 'All conditions must hold. Comparisons are case-insensitive; greater_than and less_than compare numerically.',
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      field: FIELD_SCHEMA,
+      operator: { type: Type.STRING, enum: OPERATORS },
+      value: { type: Type.STRING, description: 'Value to compare with; a comma-separated list for "in"' },
+    },
+    required: ['field', 'operator', 'value'],
+  },
+};
+
+export const QUERY_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'filter_rows',
+    description: 'Returns the number of rows matching the conditions and a sample of them.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: { conditions: CONDITIONS_SCHEMA },
+    },
+  },
+  {
+    name: 'count_by',
+    description: 'Groups the rows matching the conditions by a field and counts rows (or distinct values of another field) per group.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        groupBy: FIELD_SCHEMA,
+        countDistinct: { ...FIELD_SCHEMA, description: 'Count distinct values of this field instead of rows' },
+        conditions: CONDITIONS_SCHEMA,
+      },
+      required: ['groupBy'],
+    },
+  },
+  {
+    name: 'groups_without_value',
+    description: 'Among the rows matching the conditions, groups them by a field and returns the groups that have no row where `field` equals `value`, e.g. LACs with no UTRAN entry.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        groupBy: FIELD_SCHEMA,
+        field: FIELD_SCHEMA,
+        value: { type: Type.STRING },
+        conditions: CONDITIONS_SCHEMA,
+      },
+      required: ['groupBy', 'field', 'value'],
+    },
+  },
+];
+
+function matchesCondition(row: ParsedRecord, { field, operator, value }: QueryCondition): boolean {
+  const actual = fieldValue(row, field).toLowerCase();
+  const expected = value.toLowerCase();
+  switch (operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'contains':
+      return actual.includes(expected);
+    case 'starts_with':
+      return actual.startsWith(expected);
+    case 'in':
+      return expected.split(',').map(v => v.trim()).includes(actual);
+    case 'greater_than':
+      return Number(normaliseCode(actual)) > Number(normaliseCode(expected));
+    case 'less_than':
+      return Number(normaliseCode(actual)) < Number(normaliseCode(expected));
+    default:
+      throw new Error(`Unknown operator "${operator}".`);
+  }
+}
+
+function readConditions(args: Record<string, unknown>): QueryCondition[] {
+  const conditions = Array.isArray(args.conditions) ? args.conditions as QueryCondition[] : [];
+  conditions.forEach(condition => readField(condition.field));
+  return conditions;
+}
+
+function readField(value: unknown): string {
+  if (typeof value !== 'string' || !QUERY_FIELDS.includes(value)) {
+    throw new Error(`Unknown field "${String(value)}". Use one of: ${QUERY_FIELDS.join(', ')}.`);
+  }
+  return value;
+}
+
+function groupRows(rows: ParsedRecord[], field: string): Map<string, ParsedRecord[]> {
+  const groups = new Map<string, ParsedRecord[]>();
+  rows.forEach(row => {
+    const key = fieldValue(row, field);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  });
+  return new Map([...groups.entries()].sort(([a], [b]) => collator.compare(a, b)));
+}
+
+// Runs one tool call against the local rows. Errors are returned to the
+// model as an `error` field so it can correct its arguments.
+export function executeQueryTool(name: string, args: Record<string, unknown>, rows: ParsedRecord[]): ToolOutput {
+  try {
+    const conditions = readConditions(args);
+    const matching = rows.filter(row => conditions.every(condition => matchesCondition(row, condition)));
+
+    if (name === 'filter_rows') {
+      return {
+        response: { matchedRows: matching.length, sample: matching.slice(0, MAX_SAMPLE_ROWS) },
+        rows: matching,
+        summary: `${matching.length} rows matched`,
+      };
+    }
+
+    if (name === 'count_by') {
+      const countDistinct = args.countDistinct === undefined ? null : readField(args.countDistinct);
+      const groups = [...groupRows(matching, readField(args.groupBy)).entries()].map(([value, group]) => ({
+        value,
+        count: countDistinct ? new Set(group.map(row => fieldValue(row, countDistinct))).size : group.length,
+      }));
+      return {
+        response: { groupCount: groups.length, groups: groups.slice(0, MAX_GROUPS), truncated: groups.length > MAX_GROUPS },
+        summary: `${groups.length} groups`,
+      };
+    }
+
+    if (name === 'groups_without_value') {
+      const field = readField(args.field);
+      const expected = String(args.value ?? '').toLowerCase();
+      const groups = [...groupRows(matching, readField(args.groupBy)).entries()]
+        .filter(([, group]) => !group.some(row => fieldValue(row, field).toLowerCase() === expected));
+      return {
+        response: {
+          groupCount: groups.length,
+          groups: groups.slice(0, MAX_GROUPS).map(([value, group]) => ({ value, rows: group.length })),
+          truncated: groups.length > MAX_GROUPS,
+        },
+        rows: groups.flatMap(([, group]) => group),
+        summary: `${groups.length} groups without ${field} = ${String(args.value)}`,
+      };
+    }
+
+    throw new Error(`Unknown tool "${name}".`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { response: { error: message }, summary: `Error: ${message}` };
+  }
+}
+
+function systemInstruction(snapshots: QuerySnapshot[], rowCount: number): string {
+  return [
+    'You answer questions about SGSN/MME location area configuration extracted from node dumps.',
+    `The data has ${rowCount} rows with the fields ${QUERY_FIELDS.join(', ')}.`,
+    'lac is the location area code, rat the radio access type (e.g. UTRAN, GERAN), location the location name,',
+    'tac the tracking area code and msc the MSC/VLR name.',
+    `The "${SNAPSHOT_FIELD}" field names the snapshot a row came from: ${snapshots.map(s => JSON.stringify(s.name)).join(', ')}.`,
+    'You cannot see the rows. Use the tools to filter, group and count them, then answer concisely in plain text,',
+    'quoting the numbers the tools returned. If unsure of exact spellings, list values with count_by first.',
+  ].join('\n');
+}
+
+// Asks Gemini the question with the query tools attached and executes every
+// tool call locally, so only aggregates and small samples leave the browser
+export async function runNaturalLanguageQuery(
+  ai: GoogleGenAI,
+  question: string,
+  snapshots: QuerySnapshot[],
+  onToolCall?: (call: QueryToolCall) => void
+): Promise<QueryResult> {
+  const rows: ParsedRecord[] = snapshots.flatMap(snapshot => snapshot.data.map(row => ({ ...row, [SNAPSHOT_FIELD]: snapshot.name })));
+  const contents: Content[] = [{ role: 'user', parts: [{ text: question }] }];
+  const toolCalls: QueryToolCall[] = [];
+  let resultRows: ParsedRecord[] = [];
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents,
+      config: {
+        systemInstruction: systemInstruction(snapshots, rows.length),
+        tools: [{ functionDeclarations: QUERY_TOOLS }],
+      },
+    });
+
+    const calls = response.functionCalls ?? [];
+    if (calls.length === 0) {
+      return { answer: response.text ?? '', rows: resultRows, toolCalls };
+    }
+
+    const modelContent = response.candidates?.[0]?.content;
+    if (modelContent) {
+      contents.push(modelContent);
+    }
+    contents.push({
+      role: 'user',
+      parts: calls.map(call => {
+        const name = call.name ?? '';
+        const args = call.args ?? {};
+        const output = executeQueryTool(name, args, rows);
+        if (output.rows) {
+          resultRows = output.rows;
+        }
+        const toolCall = { name, args, summary: output.summary };
+        toolCalls.push(toolCall);
+        onToolCall?.(toolCall);
+        return { functionResponse: { id: call.id, name, response: output.response } };
+      }),
+    });
+  }
+
+  throw new Error(`The model did not produce an answer within ${MAX_TOOL_ROUNDS} rounds of tool calls.`);
+}
@@ -0,0 +1,26 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParseDiagnostics, ParsedRecord } from './types.ts';
+
+// Messages exchanged between the page and parser.worker.ts
+
+export type ParseProgress = {
+  bytesProcessed: number;
+  totalBytes: number;
+  linesProcessed: number;
+  matches: number;
+};
+
+export type WorkerRequest = {
+  type: 'parse';
+  file: Blob;
+};
+
+// Records are sent once, in the progress messages; 'done' follows the last of
+// them and only adds the diagnostics
+export type WorkerResponse =
+  | { type: 'progress'; progress: ParseProgress; records: Record<string, ParsedRecord[]> }
+  | { type: 'done'; diagnostics: ParseDiagnostics }
+  | { type: 'error'; message: string };
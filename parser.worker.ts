@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParsedRecord } from './types.ts';
+import type { ParseProgress, WorkerRequest, WorkerResponse } from './parser-messages.ts';
+import { isGzipHeader, parseDumpStream } from './extraction.ts';
+
+// Minimum time between progress messages, so the page isn't flooded
+const PROGRESS_INTERVAL_MS = 200;
+
+function post(message: WorkerResponse) {
+  postMessage(message);
+}
+
+async function parseStream(file: Blob) {
+  const progress: ParseProgress = { bytesProcessed: 0, totalBytes: file.size, linesProcessed: 0, matches: 0 };
+  let pendingRecords: Record<string, ParsedRecord[]> = {};
+  let lastPost = 0;
+
+  const flush = () => {
+    post({ type: 'progress', progress: { ...progress }, records: pendingRecords });
+    pendingRecords = {};
+    lastPost = Date.now();
+  };
+
+  // Counts compressed bytes read from disk, which is what file.size measures
+  const byteCounter = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      progress.bytesProcessed += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+  });
+
+  const gzip = isGzipHeader(new Uint8Array(await file.slice(0, 2).arrayBuffer()));
+  const result = await parseDumpStream(file.stream().pipeThrough(byteCounter), gzip, {
+    onLine: parsed => {
+      progress.linesProcessed++;
+      if (parsed) {
+        progress.matches++;
+        (pendingRecords[parsed.parserId] ??= []).push(parsed.record);
+      }
+    },
+    onChunk: () => {
+      if (Date.now() - lastPost >= PROGRESS_INTERVAL_MS) {
+        flush();
+      }
+    },
+  });
+  flush();
+  post({ type: 'done', diagnostics: result.diagnostics });
+}
+
+addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  if (event.data.type === 'parse') {
+    parseStream(event.data.file).catch(error => {
+      post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    });
+  }
+});
@@ -0,0 +1,423 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ParseDiagnostics, ParsedRecord, RecordAttributes } from './types.ts';
+
+export type ColumnDef = {
+  key: string;
+  header: string;
+};
+
+export type CommandParser<T extends ParsedRecord = ParsedRecord> = {
+  id: string;
+  label: string;
+  // MML command keyword that routes a line to this parser
+  command: string;
+  columns: ColumnDef[];
+  // Flags `parse` reads into fields (alternatives separated by "/"); the
+  // occurrence it read is not kept again as an attribute
+  mappedFlags: string[];
+  parse: (line: string) => T | null;
+  // Explains why `parse` rejected a line, e.g. "Missing -lac"
+  diagnose: (line: string) => string;
+};
+
+export type RoutingAreaRecord = {
+  lac: string;
+  rac: string;
+  rat: string;
+  sgsn: string;
+};
+
+export type TaiListRecord = {
+  tal: string;
+  tac: string;
+  mme: string;
+};
+
+export type MscPoolRecord = {
+  pool: string;
+  msc: string;
+  weight: string;
+};
+
+export type GanRecord = {
+  gan: string;
+  location: string;
+  tac: string;
+  lac: string;
+};
+
+export type TrackingAreaRecord = {
+  tac: string;
+  location: string;
+  mmepool: string;
+  // Location area and MSC the MME falls back to for CS fallback (SGs)
+  lac: string;
+  msc: string;
+};
+
+export type ParseResult = {
+  // Records per parser id, in registry order
+  records: Record<string, ParsedRecord[]>;
+  diagnostics: ParseDiagnostics;
+};
+
+// Longest line text and number of skipped lines kept in diagnostics, so a
+// garbage dump can't bloat history. Reason counts always cover every line.
+const MAX_SKIPPED_LINE_LENGTH = 500;
+const MAX_SKIPPED_LINES = 10000;
+
+const COMMAND_REGEX = /\b(create_[a-z_]+)\b/i;
+
+// Returns the value following `-name` on the line, or null if the flag is absent
+export function readFlag(line: string, name: string): string | null {
+  const match = line.match(new RegExp(`(?:^|\\s)-${name}\\s+(\\S+)`, 'i'));
+  return match ? match[1] : null;
+}
+
+// Column keys of attributes are the flag as written ("-rac"), so they can't
+// clash with parser fields
+export const ATTRIBUTE_PREFIX = '-';
+// A double- or single-quoted value (which may contain spaces) or a bare word
+const TOKEN_REGEX = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+// Flag names start with a letter, so a negative number such as -5 is a value
+const FLAG_TOKEN_REGEX = /^-([a-z][a-z0-9_]*)$/i;
+
+export function isAttributeKey(key: string): boolean {
+  return key.startsWith(ATTRIBUTE_PREFIX);
+}
+
+// Separates the values of a flag that occurs more than once on a line
+export const ATTRIBUTE_VALUE_SEPARATOR = ', ';
+
+// Every `-flag value` pair on the line, in order; flags without a value get "true"
+function readFlagTokens(line: string): { flag: string; value: string }[] {
+  const pairs: { flag: string; value: string }[] = [];
+  let flag: string | null = null;
+  for (const [token, doubleQuoted, singleQuoted] of line.matchAll(TOKEN_REGEX)) {
+    const flagMatch = doubleQuoted === undefined && singleQuoted === undefined ? token.match(FLAG_TOKEN_REGEX) : null;
+    if (flagMatch) {
+      if (flag !== null) {
+        pairs.push({ flag, value: 'true' });
+      }
+      flag = flagMatch[1].toLowerCase();
+    } else if (flag !== null) {
+      pairs.push({ flag, value: doubleQuoted?.replace(/\\(.)/g, '$1') ?? singleQuoted ?? token });
+      flag = null;
+    }
+  }
+  if (flag !== null) {
+    pairs.push({ flag, value: 'true' });
+  }
+  return pairs;
+}
+
+// The flags of a line keyed by lower-case name, leaving out the occurrences a
+// parser already read into `fieldValues`. Each `mappedFlags` entry (alternatives
+// separated by "/") accounts for one occurrence: the first whose value became a
+// field, else the first in the line. A repeated flag keeps all its values.
+export function readAttributes(line: string, mappedFlags: string[] = [], fieldValues: string[] = []): RecordAttributes {
+  const pairs = readFlagTokens(line);
+  const mapped = new Set<number>();
+  mappedFlags.forEach(group => {
+    const names = group.split('/');
+    const candidates = pairs.flatMap((pair, i) => names.includes(pair.flag) && !mapped.has(i) ? [i] : []);
+    const index = candidates.find(i => fieldValues.includes(pairs[i].value)) ?? candidates[0];
+    if (index !== undefined) {
+      mapped.add(index);
+    }
+  });
+  const values = new Map<string, string[]>();
+  pairs.forEach(({ flag, value }, i) => {
+    if (!mapped.has(i)) {
+      values.set(flag, [...values.get(flag) ?? [], value]);
+    }
+  });
+  return Object.fromEntries([...values].map(([flag, list]) => [flag, list.join(ATTRIBUTE_VALUE_SEPARATOR)]));
+}
+
+export function attributeColumn(key: string): ColumnDef {
+  return { key, header: key.toUpperCase() };
+}
+
+// Value of a column: a parser field, or an attribute for "-flag" keys
+export function fieldValue(record: ParsedRecord, key: string): string {
+  const value = isAttributeKey(key) ? record.attributes?.[key.slice(ATTRIBUTE_PREFIX.length)] : record[key];
+  return typeof value === 'string' ? value : '';
+}
+
+// LACs and TACs may be zero-padded or written in hex ("0x1F4"), so codes are
+// compared by number; anything else case-insensitively
+export function normaliseCode(value: string): string {
+  const trimmed = value.trim();
+  if (/^0x[0-9a-f]+$/i.test(trimmed)) {
+    return String(parseInt(trimmed, 16));
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return String(Number(trimmed));
+  }
+  return trimmed.toLowerCase();
+}
+
+// First required flag (alternatives separated by "/") missing from the line
+function findMissingFlag(line: string, flags: string[]): string | null {
+  const missing = flags.find(flag => flag.split('/').every(name => readFlag(line, name) === null));
+  return missing ? `Missing ${missing.split('/').map(name => `-${name}`).join('/')}` : null;
+}
+
+// Splits a GAN value such as "NAIROBI_1201" into its LOCATION and TAC parts
+export function splitGanValue(value: string): { location: string; tac: string } | null {
+  const match = value.match(/^([A-Z]+)_(\d+)$/i);
+  return match ? { location: match[1], tac: match[2] } : null;
+}
+
+// Regex to capture LAC, RAT, LOCATION, TAC and MSC/VLR (assuming -vlr or -msc flag)
+const LA_EXTRACTION_REGEX = /-lac\s+(\d+)\s+-at\s+(\S+).*?-gan\s+([A-Z]+)_(\d+).*?-(?:vlr|msc)\s+(\S+)/i;
+
+export const locationAreaParser: CommandParser<ExtractedData> = {
+  id: 'la',
+  label: 'Location Areas',
+  command: 'create_la',
+  columns: [
+    { key: 'lac', header: 'LAC' },
+    { key: 'rat', header: 'RAT' },
+    { key: 'location', header: 'LOCATION' },
+    { key: 'tac', header: 'TAC' },
+    { key: 'msc', header: 'MSC/VLR' },
+  ],
+  mappedFlags: ['lac', 'at', 'gan', 'vlr/msc'],
+  parse: line => {
+    const match = line.match(LA_EXTRACTION_REGEX);
+    if (!match) {
+      return null;
+    }
+    return {
+      lac: match[1],
+      rat: match[2],
+      location: match[3],
+      tac: match[4],
+      msc: match[5]
+    };
+  },
+  diagnose: line => {
+    const missing = findMissingFlag(line, ['lac', 'at', 'gan', 'vlr/msc']);
+    if (missing) {
+      return missing;
+    }
+    if (!/^\d+$/.test(readFlag(line, 'lac') ?? '')) {
+      return 'Non-numeric -lac value';
+    }
+    if (!splitGanValue(readFlag(line, 'gan') ?? '')) {
+      return 'Malformed -gan value';
+    }
+    return 'Unexpected flag order';
+  },
+};
+
+export const routingAreaParser: CommandParser<RoutingAreaRecord> = {
+  id: 'ra',
+  label: 'Routing Areas',
+  command: 'create_ra',
+  columns: [
+    { key: 'lac', header: 'LAC' },
+    { key: 'rac', header: 'RAC' },
+    { key: 'rat', header: 'RAT' },
+    { key: 'sgsn', header: 'SGSN' },
+  ],
+  mappedFlags: ['lac', 'rac', 'at', 'sgsn'],
+  parse: line => {
+    const lac = readFlag(line, 'lac');
+    const rac = readFlag(line, 'rac');
+    if (!lac || !rac) {
+      return null;
+    }
+    return { lac, rac, rat: readFlag(line, 'at') ?? '', sgsn: readFlag(line, 'sgsn') ?? '' };
+  },
+  diagnose: line => findMissingFlag(line, ['lac', 'rac']) ?? 'Unrecognised create_ra line',
+};
+
+export const taiListParser: CommandParser<TaiListRecord> = {
+  id: 'tal',
+  label: 'TAI Lists',
+  command: 'create_tal',
+  columns: [
+    { key: 'tal', header: 'TAI LIST' },
+    { key: 'tac', header: 'TAC' },
+    { key: 'mme', header: 'MME' },
+  ],
+  mappedFlags: ['tal', 'tac', 'mme'],
+  parse: line => {
+    const tal = readFlag(line, 'tal');
+    const tac = readFlag(line, 'tac');
+    if (!tal || !tac) {
+      return null;
+    }
+    return { tal, tac, mme: readFlag(line, 'mme') ?? '' };
+  },
+  diagnose: line => findMissingFlag(line, ['tal', 'tac']) ?? 'Unrecognised create_tal line',
+};
+
+export const mscPoolParser: CommandParser<MscPoolRecord> = {
+  id: 'mscpool',
+  label: 'MSC Pools',
+  command: 'create_mscpool',
+  columns: [
+    { key: 'pool', header: 'POOL' },
+    { key: 'msc', header: 'MSC/VLR' },
+    { key: 'weight', header: 'WEIGHT' },
+  ],
+  mappedFlags: ['pool', 'msc/vlr', 'weight'],
+  parse: line => {
+    const pool = readFlag(line, 'pool');
+    const msc = readFlag(line, 'msc') ?? readFlag(line, 'vlr');
+    if (!pool || !msc) {
+      return null;
+    }
+    return { pool, msc, weight: readFlag(line, 'weight') ?? '' };
+  },
+  diagnose: line => findMissingFlag(line, ['pool', 'msc/vlr']) ?? 'Unrecognised create_mscpool line',
+};
+
+export const ganParser: CommandParser<GanRecord> = {
+  id: 'gan',
+  label: 'GAN Definitions',
+  command: 'create_gan',
+  columns: [
+    { key: 'gan', header: 'GAN' },
+    { key: 'location', header: 'LOCATION' },
+    { key: 'tac', header: 'TAC' },
+    { key: 'lac', header: 'LAC' },
+  ],
+  mappedFlags: ['gan', 'lac'],
+  parse: line => {
+    const gan = readFlag(line, 'gan');
+    const parts = gan ? splitGanValue(gan) : null;
+    if (!gan || !parts) {
+      return null;
+    }
+    return { gan, location: parts.location, tac: parts.tac, lac: readFlag(line, 'lac') ?? '' };
+  },
+  diagnose: line => findMissingFlag(line, ['gan']) ?? 'Malformed -gan value',
+};
+
+// MME tracking areas; the location comes from -gan LOCATION_TAC like on the
+// SGSN side, or from a plain -location flag
+export const trackingAreaParser: CommandParser<TrackingAreaRecord> = {
+  id: 'ta',
+  label: 'Tracking Areas',
+  command: 'create_ta',
+  columns: [
+    { key: 'tac', header: 'TAC' },
+    { key: 'location', header: 'LOCATION' },
+    { key: 'mmepool', header: 'MME POOL' },
+    { key: 'lac', header: 'CSFB LAC' },
+    { key: 'msc', header: 'CSFB MSC' },
+  ],
+  mappedFlags: ['tac', 'gan/location', 'mmepool/mme', 'lac', 'msc/vlr'],
+  parse: line => {
+    const tac = readFlag(line, 'tac');
+    const location = splitGanValue(readFlag(line, 'gan') ?? '')?.location ?? readFlag(line, 'location');
+    if (!tac || !location) {
+      return null;
+    }
+    return {
+      tac,
+      location,
+      mmepool: readFlag(line, 'mmepool') ?? readFlag(line, 'mme') ?? '',
+      lac: readFlag(line, 'lac') ?? '',
+      msc: readFlag(line, 'msc') ?? readFlag(line, 'vlr') ?? '',
+    };
+  },
+  diagnose: line => findMissingFlag(line, ['tac', 'gan/location']) ?? 'Malformed -gan value',
+};
+
+// Registry order is the tab order. The first entry is also the fallback for
+// lines that carry no command keyword at all, which keeps older dumps
+// (bare `-lac ... -vlr` lines) working.
+export const COMMAND_PARSERS: CommandParser[] = [
+  locationAreaParser,
+  routingAreaParser,
+  taiListParser,
+  mscPoolParser,
+  ganParser,
+  trackingAreaParser,
+];
+
+export function getParser(id: string): CommandParser | undefined {
+  return COMMAND_PARSERS.find(parser => parser.id === id);
+}
+
+function detectCommand(line: string): string | undefined {
+  return line.match(COMMAND_REGEX)?.[1].toLowerCase();
+}
+
+// Undefined for a command keyword no parser handles, so its flags are never
+// read as another command's
+export function findParserForLine(line: string): CommandParser | undefined {
+  const command = detectCommand(line);
+  return command ? COMMAND_PARSERS.find(parser => parser.command === command) : COMMAND_PARSERS[0];
+}
+
+function diagnoseLine(parser: CommandParser | undefined, line: string): string {
+  if (!parser) {
+    return `Unsupported command ${detectCommand(line)}`;
+  }
+  if (!/(?:^|\s)-[a-z]/i.test(line)) {
+    return 'No command flags';
+  }
+  return parser.diagnose(line);
+}
+
+export type TextParser = {
+  // Feeds one line (without its line terminator); returns the record it produced, if any
+  parseLine: (line: string) => { parserId: string; record: ParsedRecord } | null;
+  result: () => ParseResult;
+};
+
+// Line-by-line parser state, so large dumps can be fed in chunks
+export function createTextParser(): TextParser {
+  const records: Record<string, ParsedRecord[]> = {};
+  COMMAND_PARSERS.forEach(parser => { records[parser.id] = []; });
+  const diagnostics: ParseDiagnostics = { totalLines: 0, matchedLines: 0, skippedLines: [], reasonCounts: {} };
+  let lineNumber = 0;
+
+  const parseLine = (line: string) => {
+    lineNumber++;
+    // Skip empty or whitespace-only lines from processing
+    if (line.trim() === '') {
+      return null;
+    }
+    diagnostics.totalLines++;
+
+    const parser = findParserForLine(line);
+    const parsed = parser ? parser.parse(line) : null;
+    if (parser && parsed) {
+      const attributes = readAttributes(line, parser.mappedFlags, Object.values(parsed).filter((value): value is string => typeof value === 'string'));
+      const record = Object.keys(attributes).length > 0 ? { ...parsed, attributes } : parsed;
+      records[parser.id].push(record);
+      diagnostics.matchedLines++;
+      return { parserId: parser.id, record };
+    }
+
+    const reason = diagnoseLine(parser, line);
+    diagnostics.reasonCounts[reason] = (diagnostics.reasonCounts[reason] ?? 0) + 1;
+    if (diagnostics.skippedLines.length < MAX_SKIPPED_LINES) {
+      diagnostics.skippedLines.push({
+        lineNumber,
+        reason,
+        line: line.trimEnd().slice(0, MAX_SKIPPED_LINE_LENGTH),
+      });
+    }
+    return null;
+  };
+
+  return { parseLine, result: () => ({ records, diagnostics }) };
+}
+
+export function parseText(text: string): ParseResult {
+  const parser = createTextParser();
+  text.split('\n').forEach(line => parser.parseLine(line));
+  return parser.result();
+}
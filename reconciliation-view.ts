@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ExtractedField, ParsedRecord, PlanInventory } from './types.ts';
+import { locationAreaParser, type ColumnDef } from './parsers.ts';
+import { createCheckbox, downloadBlob } from './dom.ts';
+import { createDataGrid } from './data-grid.ts';
+import {
+  RECONCILIATION_STATUSES,
+  reconcileWithPlan,
+  reconciliationToCsvString,
+  type ReconciliationEntry,
+  type ReconciliationStatus,
+} from './reconciliation.ts';
+
+const DEFAULT_VISIBLE_STATUSES: ReconciliationStatus[] = ['missing-in-node', 'not-in-plan', 'mismatch'];
+
+const STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  'missing-in-node': 'Missing in node',
+  'not-in-plan': 'Not in plan',
+  'mismatch': 'Attribute mismatch',
+  'match': 'Matches plan',
+};
+
+const GRID_COLUMNS: ColumnDef[] = [
+  { key: 'key', header: 'KEY' },
+  { key: 'status', header: 'STATUS' },
+  { key: 'mismatched', header: 'MISMATCHED FIELDS' },
+  ...locationAreaParser.columns.map(c => ({ key: `plan_${c.key}`, header: `PLAN ${c.header}` })),
+  ...locationAreaParser.columns.map(c => ({ key: `node_${c.key}`, header: `NODE ${c.header}` })),
+];
+
+function toGridRow(entry: ReconciliationEntry): ParsedRecord {
+  const headers = Object.fromEntries(locationAreaParser.columns.map(c => [c.key, c.header]));
+  const row: ParsedRecord = {
+    key: entry.key,
+    status: STATUS_LABELS[entry.status],
+    mismatched: entry.mismatchedFields.map(f => headers[f]).join(' '),
+  };
+  locationAreaParser.columns.forEach(({ key }) => {
+    row[`plan_${key}`] = entry.planned?.[key as ExtractedField] ?? '';
+    row[`node_${key}`] = entry.actual?.[key as ExtractedField] ?? '';
+  });
+  return row;
+}
+
+// Reconciles one snapshot against a reference plan and lists the
+// differences, hiding matching areas by default
+export function renderReconciliation(container: HTMLElement, plan: PlanInventory, snapshot: { name: string; data: ExtractedData[] }) {
+  const { entries, counts } = reconcileWithPlan(plan.rows, snapshot.data);
+  const visibleStatuses = new Set(DEFAULT_VISIBLE_STATUSES);
+
+  container.innerHTML = '<h3>Plan Reconciliation</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = `Plan: ${plan.name} (${plan.rows.length} areas) → Node: ${snapshot.name} (${snapshot.data.length} rows)`;
+  container.appendChild(description);
+
+  const statusControls = document.createElement('fieldset');
+  statusControls.className = 'diff-controls';
+  const legend = document.createElement('legend');
+  legend.textContent = 'Show';
+  statusControls.appendChild(legend);
+
+  const exportButtons = document.createElement('div');
+  exportButtons.className = 'diff-export-buttons';
+  const exportCsvButton = document.createElement('button');
+  exportCsvButton.textContent = 'Export CSV';
+  const exportJsonButton = document.createElement('button');
+  exportJsonButton.textContent = 'Export JSON';
+  exportButtons.appendChild(exportCsvButton);
+  exportButtons.appendChild(exportJsonButton);
+
+  const gridArea = document.createElement('div');
+
+  const render = () => {
+    const visibleEntries = entries.filter(entry => visibleStatuses.has(entry.status));
+
+    exportCsvButton.onclick = () => {
+      downloadBlob(new Blob([reconciliationToCsvString(visibleEntries)], { type: 'text/csv' }), 'plan_reconciliation.csv');
+    };
+    exportJsonButton.onclick = () => {
+      const jsonString = JSON.stringify({ plan: plan.name, snapshot: snapshot.name, counts, entries: visibleEntries }, null, 2);
+      downloadBlob(new Blob([jsonString], { type: 'application/json' }), 'plan_reconciliation.json');
+    };
+
+    gridArea.innerHTML = '';
+    if (visibleEntries.length === 0) {
+      gridArea.textContent = 'No areas match the selected filters.';
+      return;
+    }
+    gridArea.appendChild(createDataGrid({
+      columns: GRID_COLUMNS,
+      rows: visibleEntries.map(toGridRow),
+      exportFileName: 'plan_reconciliation_view.csv',
+    }).element);
+  };
+
+  RECONCILIATION_STATUSES.forEach(status => {
+    statusControls.appendChild(createCheckbox(`${STATUS_LABELS[status]} (${counts[status]})`, visibleStatuses.has(status), checkbox => {
+      if (checkbox.checked) {
+        visibleStatuses.add(status);
+      } else {
+        visibleStatuses.delete(status);
+      }
+      render();
+    }));
+  });
+
+  container.appendChild(statusControls);
+  container.appendChild(exportButtons);
+  container.appendChild(gridArea);
+  render();
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ExtractedField } from './types.ts';
+import { rowsToCsvString } from './csv.ts';
+import { locationAreaParser, normaliseCode } from './parsers.ts';
+
+export type ReconciliationStatus = 'missing-in-node' | 'not-in-plan' | 'mismatch' | 'match';
+
+export type ReconciliationEntry = {
+  key: string;
+  status: ReconciliationStatus;
+  planned: ExtractedData | null;
+  actual: ExtractedData | null;
+  // Planned attributes the node disagrees with
+  mismatchedFields: (ExtractedField)[];
+};
+
+export type Reconciliation = {
+  entries: ReconciliationEntry[];
+  counts: Record<ReconciliationStatus, number>;
+};
+
+export const RECONCILIATION_STATUSES: ReconciliationStatus[] = ['missing-in-node', 'not-in-plan', 'mismatch', 'match'];
+
+// Attributes checked against the plan; LAC (and RAT when planned) identify the area
+const RECONCILED_FIELDS: (ExtractedField)[] = ['location', 'tac', 'msc'];
+const CODE_FIELDS: (ExtractedField)[] = ['lac', 'tac'];
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Plans are typed by hand: codes may be hex or zero-padded, names differ in case
+function normaliseValue(field: ExtractedField, value: string): string {
+  return CODE_FIELDS.includes(field) ? normaliseCode(value) : value.trim().toLowerCase();
+}
+
+function sameValue(field: ExtractedField, a: string, b: string): boolean {
+  return normaliseValue(field, a) === normaliseValue(field, b);
+}
+
+function entryKey(record: ExtractedData, withRat: boolean): string {
+  return withRat ? `${record.lac} / ${record.rat}` : record.lac;
+}
+
+// Matches every planned area to the node's rows with the same LAC (and RAT,
+// when the plan has one) and compares the attributes the plan fills in.
+// Node rows no planned area claims are reported as not in plan.
+export function reconcileWithPlan(plan: ExtractedData[], data: ExtractedData[]): Reconciliation {
+  const rowsByLac = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    const lac = normaliseValue('lac', row.lac);
+    const group = rowsByLac.get(lac);
+    if (group) {
+      group.push(index);
+    } else {
+      rowsByLac.set(lac, [index]);
+    }
+  });
+  const claimed = new Set<number>();
+  const entries: ReconciliationEntry[] = [];
+
+  plan.forEach(planned => {
+    const withRat = planned.rat.trim() !== '';
+    const matches = (rowsByLac.get(normaliseValue('lac', planned.lac)) ?? [])
+      .filter(index => !withRat || sameValue('rat', data[index].rat, planned.rat));
+    if (matches.length === 0) {
+      entries.push({ key: entryKey(planned, withRat), status: 'missing-in-node', planned, actual: null, mismatchedFields: [] });
+      return;
+    }
+    matches.forEach(index => {
+      claimed.add(index);
+      const actual = data[index];
+      const mismatchedFields = RECONCILED_FIELDS.filter(field => planned[field].trim() !== '' && !sameValue(field, planned[field], actual[field]));
+      entries.push({
+        key: entryKey(actual, true),
+        status: mismatchedFields.length > 0 ? 'mismatch' : 'match',
+        planned,
+        actual,
+        mismatchedFields,
+      });
+    });
+  });
+
+  data.forEach((actual, index) => {
+    if (!claimed.has(index)) {
+      entries.push({ key: entryKey(actual, true), status: 'not-in-plan', planned: null, actual, mismatchedFields: [] });
+    }
+  });
+
+  entries.sort((a, b) => collator.compare(a.key, b.key) || RECONCILIATION_STATUSES.indexOf(a.status) - RECONCILIATION_STATUSES.indexOf(b.status));
+  const counts = Object.fromEntries(RECONCILIATION_STATUSES.map(status => [status, 0])) as Record<ReconciliationStatus, number>;
+  entries.forEach(entry => counts[entry.status]++);
+  return { entries, counts };
+}
+
+export function reconciliationToCsvString(entries: ReconciliationEntry[]): string {
+  const columns = locationAreaParser.columns;
+  const headers = Object.fromEntries(columns.map(c => [c.key, c.header]));
+  return rowsToCsvString([
+    ['KEY', 'STATUS', 'MISMATCHED FIELDS',
+      ...columns.map(c => `PLAN ${c.header}`),
+      ...columns.map(c => `NODE ${c.header}`)],
+    ...entries.map(entry => [
+      entry.key,
+      entry.status,
+      entry.mismatchedFields.map(f => headers[f]).join(' '),
+      ...columns.map(c => entry.planned?.[c.key as ExtractedField] ?? ''),
+      ...columns.map(c => entry.actual?.[c.key as ExtractedField] ?? ''),
+    ])
+  ]);
+}
+
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ParsedRecord } from './types.ts';
+import { COMMAND_PARSERS, type ParseResult } from './parsers.ts';
+import type { ParseProgress, WorkerRequest, WorkerResponse } from './parser-messages.ts';
+
+export type { ParseProgress } from './parser-messages.ts';
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled.');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+// Parses a (possibly gzip-compressed) dump in a Web Worker. `onProgress`
+// receives the records found since the previous call, so callers can render
+// them as they arrive; the result is assembled from the same records. Aborting
+// `signal` terminates the worker.
+export function parseFileInWorker(
+  file: Blob,
+  onProgress: (progress: ParseProgress, records: Record<string, ParsedRecord[]>) => void,
+  signal?: AbortSignal
+): Promise<ParseResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ParseCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./parser.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new ParseCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    const records: Record<string, ParsedRecord[]> = {};
+    COMMAND_PARSERS.forEach(parser => { records[parser.id] = []; });
+
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        Object.entries(message.records).forEach(([parserId, chunk]) => {
+          chunk.forEach(record => records[parserId].push(record));
+        });
+        onProgress(message.progress, message.records);
+      } else if (message.type === 'done') {
+        finish();
+        resolve({ records, diagnostics: message.diagnostics });
+      } else if (message.type === 'error') {
+        finish();
+        reject(new Error(message.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'The parser worker failed to start.'));
+    });
+
+    const request: WorkerRequest = { type: 'parse', file };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { locationAreaParser } from './parsers.ts';
+import { createDataGrid } from './data-grid.ts';
+import { withAttributeColumns, type ColumnSettings } from './column-profiles.ts';
+import {
+  CHANGE_LOG_COLUMNS,
+  TIMELINE_FILTER_FIELDS,
+  buildChangeLog,
+  buildTimeline,
+  changeLogToRecords,
+  type ChangeLogEntry,
+  type TimelineFilterField,
+  type TimelineSnapshot,
+} from './timeline.ts';
+
+const FILTER_LABELS: Record<TimelineFilterField, string> = {
+  lac: 'LAC',
+  tac: 'TAC',
+  location: 'Location',
+};
+
+function describeChange(entry: ChangeLogEntry): string {
+  switch (entry.status) {
+    case 'added':
+      return `${entry.key} ${entry.fromTimestamp === null ? 'first seen' : 'added'}: ${entry.after}`;
+    case 'removed':
+      return `${entry.key} removed (was ${entry.before})`;
+    case 'modified':
+      return `${entry.key}: ${entry.field} ${entry.before || '(empty)'} → ${entry.after || '(empty)'}`;
+  }
+}
+
+// One list item per snapshot that changed something, oldest first
+function createTimelineList(entries: ChangeLogEntry[]): HTMLElement {
+  const list = document.createElement('ol');
+  list.className = 'timeline';
+  const items = new Map<string, HTMLUListElement>();
+  entries.forEach(entry => {
+    const itemKey = `${entry.toTimestamp}\u0000${entry.node}`;
+    let changes = items.get(itemKey);
+    if (!changes) {
+      const item = document.createElement('li');
+      const heading = document.createElement('strong');
+      heading.textContent = `${new Date(entry.toTimestamp).toLocaleString()} · ${entry.node || 'Unknown node'} · ${entry.toName}`;
+      changes = document.createElement('ul');
+      item.appendChild(heading);
+      item.appendChild(changes);
+      list.appendChild(item);
+      items.set(itemKey, changes);
+    }
+    const change = document.createElement('li');
+    change.className = `timeline-${entry.status}`;
+    change.textContent = describeChange(entry);
+    changes.appendChild(change);
+  });
+  return list;
+}
+
+// Walks the whole history: a timeline for one LAC, TAC or location, and the
+// change log of every transition between consecutive snapshots of each node
+export function renderTimeline(container: HTMLElement, snapshots: TimelineSnapshot[], settings: ColumnSettings) {
+  const columns = withAttributeColumns(locationAreaParser.columns, settings.attributes, snapshots.map(s => s.data));
+  const changeLog = buildChangeLog(snapshots, settings.keyFields, columns);
+  const nodes = new Set(snapshots.map(s => s.node));
+
+  container.innerHTML = '<h3>History Timeline</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = `${snapshots.length} snapshots of ${nodes.size} nodes; records are matched on ${settings.keyFields.join(', ').toUpperCase()}.`;
+  container.appendChild(description);
+
+  const form = document.createElement('form');
+  form.className = 'diff-controls';
+  const fieldSelect = document.createElement('select');
+  fieldSelect.setAttribute('aria-label', 'Field to follow');
+  TIMELINE_FILTER_FIELDS.forEach(field => fieldSelect.add(new Option(FILTER_LABELS[field], field)));
+  const valueInput = document.createElement('input');
+  valueInput.type = 'text';
+  valueInput.required = true;
+  valueInput.placeholder = 'e.g. 1234';
+  valueInput.setAttribute('aria-label', 'Value to follow');
+  const showButton = document.createElement('button');
+  showButton.type = 'submit';
+  showButton.textContent = 'Show Timeline';
+  form.appendChild(fieldSelect);
+  form.appendChild(valueInput);
+  form.appendChild(showButton);
+  container.appendChild(form);
+
+  const timelineArea = document.createElement('div');
+  container.appendChild(timelineArea);
+
+  form.addEventListener('submit', event => {
+    event.preventDefault();
+    const field = fieldSelect.value as TimelineFilterField;
+    const value = valueInput.value.trim();
+    const entries = buildTimeline(snapshots, field, value, settings.keyFields, columns);
+    timelineArea.innerHTML = '';
+    if (entries.length === 0) {
+      timelineArea.textContent = `No snapshot has ${FILTER_LABELS[field]} ${value}.`;
+      return;
+    }
+    timelineArea.appendChild(createTimelineList(entries));
+  });
+
+  const changeLogHeading = document.createElement('h4');
+  changeLogHeading.textContent = `Change Log (${changeLog.length} changes)`;
+  container.appendChild(changeLogHeading);
+
+  if (changeLog.length === 0) {
+    const empty = document.createElement('p');
+    empty.textContent = nodes.size === snapshots.length
+      ? 'Every node has a single snapshot; extract a node again to track its changes.'
+      : 'No changes between consecutive snapshots.';
+    container.appendChild(empty);
+    return;
+  }
+  container.appendChild(createDataGrid({
+    columns: CHANGE_LOG_COLUMNS,
+    rows: changeLogToRecords(changeLog),
+    exportFileName: 'change_log.csv',
+  }).element);
+}
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, ParsedRecord } from './types.ts';
+import { fieldValue, normaliseCode, type ColumnDef } from './parsers.ts';
+import { diffRecords } from './diff.ts';
+
+export type TimelineSnapshot = {
+  timestamp: number;
+  name: string;
+  // Snapshots are only compared with earlier ones of the same node
+  node: string;
+  data: ExtractedData[];
+};
+
+export type TimelineFilterField = 'lac' | 'tac' | 'location';
+
+export type ChangeLogEntry = {
+  node: string;
+  // Null for the state first seen in a timeline
+  fromTimestamp: number | null;
+  fromName: string;
+  toTimestamp: number;
+  toName: string;
+  key: string;
+  status: 'added' | 'removed' | 'modified';
+  // Changed field of a modification; null when a whole record came or went
+  field: string | null;
+  before: string;
+  after: string;
+};
+
+export const TIMELINE_FILTER_FIELDS: TimelineFilterField[] = ['lac', 'tac', 'location'];
+
+// Flattened columns for grids and CSV export, see changeLogToRecords
+export const CHANGE_LOG_COLUMNS: ColumnDef[] = [
+  { key: 'date', header: 'DATE' },
+  { key: 'node', header: 'NODE' },
+  { key: 'from', header: 'FROM SNAPSHOT' },
+  { key: 'to', header: 'TO SNAPSHOT' },
+  { key: 'key', header: 'KEY' },
+  { key: 'status', header: 'CHANGE' },
+  { key: 'field', header: 'FIELD' },
+  { key: 'before', header: 'BEFORE' },
+  { key: 'after', header: 'AFTER' },
+];
+
+function describeRecord(record: ParsedRecord, columns: ColumnDef[]): string {
+  return columns.map(c => fieldValue(record, c.key)).join(' / ');
+}
+
+// Snapshots per node, oldest first
+function groupByNode(snapshots: TimelineSnapshot[]): TimelineSnapshot[][] {
+  const groups = new Map<string, TimelineSnapshot[]>();
+  [...snapshots].sort((a, b) => a.timestamp - b.timestamp).forEach(snapshot => {
+    const group = groups.get(snapshot.node);
+    if (group) {
+      group.push(snapshot);
+    } else {
+      groups.set(snapshot.node, [snapshot]);
+    }
+  });
+  return [...groups.values()];
+}
+
+function diffSnapshots(
+  from: TimelineSnapshot | null,
+  to: TimelineSnapshot,
+  keyFields: string[],
+  columns: ColumnDef[]
+): ChangeLogEntry[] {
+  const headers = Object.fromEntries(columns.map(c => [c.key, c.header]));
+  const base = {
+    node: to.node,
+    fromTimestamp: from?.timestamp ?? null,
+    fromName: from?.name ?? '',
+    toTimestamp: to.timestamp,
+    toName: to.name,
+  };
+  const diff = diffRecords(from?.data ?? [], to.data, keyFields, columns.map(c => c.key));
+  return diff.entries.flatMap((entry): ChangeLogEntry[] => {
+    switch (entry.status) {
+      case 'added':
+        return [{ ...base, key: entry.key, status: 'added', field: null, before: '', after: describeRecord(entry.after!, columns) }];
+      case 'removed':
+        return [{ ...base, key: entry.key, status: 'removed', field: null, before: describeRecord(entry.before!, columns), after: '' }];
+      case 'modified':
+        return entry.changedFields.map(field => ({
+          ...base,
+          key: entry.key,
+          status: 'modified' as const,
+          field: headers[field] ?? field,
+          before: entry.before![field] ?? '',
+          after: entry.after![field] ?? '',
+        }));
+      default:
+        return [];
+    }
+  });
+}
+
+// Every record and attribute transition between consecutive snapshots of
+// each node, oldest first
+export function buildChangeLog(snapshots: TimelineSnapshot[], keyFields: string[], columns: ColumnDef[]): ChangeLogEntry[] {
+  return groupByNode(snapshots)
+    .flatMap(group => group.slice(1).flatMap((snapshot, i) => diffSnapshots(group[i], snapshot, keyFields, columns)))
+    .sort((a, b) => a.toTimestamp - b.toTimestamp);
+}
+
+// State changes of the records whose `field` equals `value` (LACs and TACs
+// compared numerically, names case-insensitively). The first snapshot that
+// has them reports them as added, so the timeline starts with their state.
+export function buildTimeline(
+  snapshots: TimelineSnapshot[],
+  field: TimelineFilterField,
+  value: string,
+  keyFields: string[],
+  columns: ColumnDef[]
+): ChangeLogEntry[] {
+  const expected = normaliseCode(value);
+  const filtered = snapshots.map(snapshot => ({
+    ...snapshot,
+    data: snapshot.data.filter(row => normaliseCode(fieldValue(row, field)) === expected),
+  }));
+  return groupByNode(filtered)
+    .flatMap(group => group.flatMap((snapshot, i) => diffSnapshots(i > 0 ? group[i - 1] : null, snapshot, keyFields, columns)))
+    .sort((a, b) => a.toTimestamp - b.toTimestamp);
+}
+
+export function changeLogToRecords(entries: ChangeLogEntry[]): ParsedRecord[] {
+  return entries.map(entry => ({
+    date: new Date(entry.toTimestamp).toLocaleString(),
+    node: entry.node,
+    from: entry.fromName,
+    to: entry.toName,
+    key: entry.key,
+    status: entry.status,
+    field: entry.field ?? '',
+    before: entry.before,
+    after: entry.after,
+  }));
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Flags of a parsed line that its parser does not map to a field, keyed
+// without the dash, e.g. { rac: "12" }
+export type RecordAttributes = Record<string, string>;
+
+// Field values of a parsed line; its other flags are kept under `attributes`
+export type ParsedRecord = {
+  [field: string]: string | RecordAttributes | undefined;
+  attributes?: RecordAttributes;
+};
+
+export type ExtractedData = {
+  lac: string;
+  rat: string;
+  location: string;
+  tac: string;
+  msc: string;
+  attributes?: RecordAttributes;
+};
+
+// The fixed location area fields
+export type ExtractedField = Exclude<keyof ExtractedData, 'attributes'>;
+
+export type SkippedLine = {
+  lineNumber: number;
+  reason: string;
+  line: string;
+};
+
+export type ParseDiagnostics = {
+  totalLines: number;
+  matchedLines: number;
+  skippedLines: SkippedLine[];
+  reasonCounts: Record<string, number>;
+};
+
+export type FindingSeverity = 'error' | 'warning';
+
+export type ValidationFinding = {
+  severity: FindingSeverity;
+  rule: string;
+  message: string;
+  // Indexes into the entry's `data` rows the finding refers to
+  rowIndexes: number[];
+};
+
+export type DumpSource = {
+  fileName: string;
+  nodeName: string;
+  size: number;
+};
+
+export type HistoryEntry = {
+  timestamp: number;
+  // Location area (create_la) rows; these feed the comparison analyses
+  data: ExtractedData[];
+  // Rows of the other command types, keyed by parser id
+  records?: Record<string, ParsedRecord[]>;
+  diagnostics?: ParseDiagnostics;
+  findings?: ValidationFinding[];
+  // Dump file the entry was extracted from
+  source?: DumpSource;
+  name?: string;
+  tags?: string[];
+  notes?: string;
+};
+
+// Reference inventory from radio planning that extractions are reconciled against
+export type PlanInventory = {
+  // Import time; also the storage key
+  id: number;
+  name: string;
+  fileName: string;
+  // Planned location areas; fields the plan has no column for are empty
+  rows: ExtractedData[];
+};
+
+// Approved configuration of a node that new extractions are checked for drift
+// against. Approving drift stores a new version; older versions are kept.
+export type Baseline = {
+  // Creation time; also the storage key
+  id: number;
+  // Matched against the node name of each entry's dump
+  node: string;
+  name: string;
+  version: number;
+  // History entries this version was promoted or approved from
+  sourceTimestamps: number[];
+  rows: ExtractedData[];
+};
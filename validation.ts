@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ExtractedData, FindingSeverity, ValidationFinding } from './types.ts';
+
+// LAC and TAC are 16-bit identifiers; 0x0000 and 0xFFFE are reserved (3GPP TS 23.003)
+const MAX_AREA_CODE = 0xFFFF;
+const RESERVED_AREA_CODES = [0x0000, 0xFFFE];
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { error: 0, warning: 1 };
+
+function groupIndexes(data: ExtractedData[], keyOf: (row: ExtractedData) => string): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(index);
+    } else {
+      groups.set(key, [index]);
+    }
+  });
+  return groups;
+}
+
+function checkAreaCodes(data: ExtractedData[], field: 'lac' | 'tac', label: string): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  groupIndexes(data, row => row[field]).forEach((rowIndexes, value) => {
+    const numeric = /^\d+$/.test(value) ? Number(value) : NaN;
+    if (Number.isNaN(numeric) || numeric > MAX_AREA_CODE) {
+      findings.push({
+        severity: 'error',
+        rule: `${field}-range`,
+        message: `${label} ${value} is outside the valid 16-bit range (0-${MAX_AREA_CODE}).`,
+        rowIndexes,
+      });
+    } else if (RESERVED_AREA_CODES.includes(numeric)) {
+      findings.push({
+        severity: 'error',
+        rule: `${field}-reserved`,
+        message: `${label} ${value} (0x${numeric.toString(16).toUpperCase().padStart(4, '0')}) is a reserved value.`,
+        rowIndexes,
+      });
+    }
+  });
+  return findings;
+}
+
+function checkLacMscConsistency(data: ExtractedData[]): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  groupIndexes(data, row => row.lac).forEach((rowIndexes, lac) => {
+    const mscs = [...new Set(rowIndexes.map(i => data[i].msc))];
+    if (mscs.length > 1) {
+      findings.push({
+        severity: 'error',
+        rule: 'lac-multiple-msc',
+        message: `LAC ${lac} points to ${mscs.length} different MSC/VLRs: ${mscs.join(', ')}.`,
+        rowIndexes,
+      });
+    }
+  });
+  return findings;
+}
+
+function checkDuplicateLacRat(data: ExtractedData[]): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  groupIndexes(data, row => `${row.lac}\u0001${row.rat}`).forEach(rowIndexes => {
+    if (rowIndexes.length > 1) {
+      const { lac, rat } = data[rowIndexes[0]];
+      findings.push({
+        severity: 'warning',
+        rule: 'duplicate-lac-rat',
+        message: `LAC ${lac} / RAT ${rat} is defined ${rowIndexes.length} times.`,
+        rowIndexes,
+      });
+    }
+  });
+  return findings;
+}
+
+function checkTacLocations(data: ExtractedData[]): ValidationFinding[] {
+  const findings: ValidationFinding[] = [];
+  groupIndexes(data, row => row.tac).forEach((rowIndexes, tac) => {
+    const locations = [...new Set(rowIndexes.map(i => data[i].location))];
+    if (locations.length > 1) {
+      findings.push({
+        severity: 'warning',
+        rule: 'tac-multiple-locations',
+        message: `TAC ${tac} is reused across ${locations.length} locations: ${locations.join(', ')}.`,
+        rowIndexes,
+      });
+    }
+  });
+  return findings;
+}
+
+// Structural consistency checks over one extraction, most severe first
+export function validateExtraction(data: ExtractedData[]): ValidationFinding[] {
+  const findings = [
+    ...checkAreaCodes(data, 'lac', 'LAC'),
+    ...checkAreaCodes(data, 'tac', 'TAC'),
+    ...checkLacMscConsistency(data),
+    ...checkDuplicateLacRat(data),
+    ...checkTacLocations(data),
+  ];
+  return findings.sort((a, b) =>
+    SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.rowIndexes.length - a.rowIndexes.length
+  );
+}
+
+export function countBySeverity(findings: ValidationFinding[]): Record<FindingSeverity, number> {
+  const counts: Record<FindingSeverity, number> = { error: 0, warning: 0 };
+  findings.forEach(finding => counts[finding.severity]++);
+  return counts;
+}
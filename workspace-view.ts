@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createCheckbox } from './dom.ts';
+import {
+  planWorkspaceImport,
+  type ConflictPolicy,
+  type ReadWorkspace,
+  type StoredWorkspace,
+  type WorkspaceAnalysis,
+  type WorkspaceImport,
+} from './workspace.ts';
+
+const CONFLICT_POLICY_LABELS: Record<ConflictPolicy, string> = {
+  'skip': 'Keep my entries, skip the bundle\'s',
+  'replace': 'Replace my entries with the bundle\'s',
+  'keep-both': 'Keep both (bundle entries get a new timestamp)',
+};
+
+const ANALYSIS_KIND_LABELS: Record<WorkspaceAnalysis['kind'], string> = {
+  'comparison': 'Comparison',
+  'ai-discrepancies': 'AI discrepancies',
+};
+
+export type WorkspaceImportHandlers = {
+  // Stores the import; resolves to null when storing failed
+  onImport: (policy: ConflictPolicy, useColumnSettings: boolean) => Promise<WorkspaceImport | null>;
+  onShowAnalysis: (analysis: WorkspaceAnalysis) => void;
+};
+
+function createAnalysisList(analyses: WorkspaceAnalysis[], onShow: (analysis: WorkspaceAnalysis) => void): HTMLElement {
+  const list = document.createElement('div');
+  list.className = 'split-results-container';
+  analyses.forEach(analysis => {
+    const item = document.createElement('div');
+    item.className = 'split-result-item';
+    const label = document.createElement('span');
+    label.textContent = `${ANALYSIS_KIND_LABELS[analysis.kind]} of ${analysis.sources.length} entries by ${analysis.producer}, ${new Date(analysis.createdAt).toLocaleString()}`;
+    const showButton = document.createElement('button');
+    showButton.textContent = 'Show';
+    showButton.onclick = () => onShow(analysis);
+    item.appendChild(label);
+    item.appendChild(showButton);
+    list.appendChild(item);
+  });
+  return list;
+}
+
+// Preview of a workspace bundle with the choice of how to handle entries
+// whose timestamp is already used by a different history entry
+export function renderWorkspaceImport(
+  container: HTMLElement,
+  fileName: string,
+  { bundle, migratedFrom }: ReadWorkspace,
+  stored: StoredWorkspace,
+  { onImport, onShowAnalysis }: WorkspaceImportHandlers
+) {
+  const conflicts = planWorkspaceImport(bundle, stored, 'skip').counts.skipped;
+  let policy: ConflictPolicy = 'skip';
+  let useColumnSettings = false;
+
+  container.innerHTML = '<h3>Import Workspace</h3>';
+
+  const description = document.createElement('p');
+  description.textContent = `${fileName}: workspace exported ${bundle.exportedAt > 0 ? new Date(bundle.exportedAt).toLocaleString() : 'at an unknown time'}` +
+    (migratedFrom !== null ? `, upgraded from bundle version ${migratedFrom} to ${bundle.version}.` : '.');
+  container.appendChild(description);
+
+  const contents = document.createElement('ul');
+  [
+    `${bundle.entries.length} history entries (${bundle.selection.length} selected)`,
+    `${bundle.analyses.length} analysis results`,
+    `${bundle.plans.length} reference plans`,
+    `${bundle.baselines.length} baseline versions`,
+    `${bundle.columnProfiles.length} column profiles`,
+  ].forEach(text => {
+    const item = document.createElement('li');
+    item.textContent = text;
+    contents.appendChild(item);
+  });
+  container.appendChild(contents);
+
+  const options = document.createElement('fieldset');
+  options.className = 'diff-controls';
+  options.innerHTML = '<legend>Import options</legend>';
+  if (conflicts > 0) {
+    const policyLabel = document.createElement('label');
+    const policyText = document.createElement('span');
+    policyText.textContent = `${conflicts} entries share a timestamp with history entries whose rows or details (name, tags, notes) differ: `;
+    const policySelect = document.createElement('select');
+    (Object.keys(CONFLICT_POLICY_LABELS) as ConflictPolicy[]).forEach(option => {
+      policySelect.add(new Option(CONFLICT_POLICY_LABELS[option], option));
+    });
+    policySelect.onchange = () => {
+      policy = policySelect.value as ConflictPolicy;
+    };
+    policyLabel.appendChild(policyText);
+    policyLabel.appendChild(policySelect);
+    options.appendChild(policyLabel);
+  }
+  options.appendChild(createCheckbox('Use the bundle\'s column settings', useColumnSettings, checkbox => {
+    useColumnSettings = checkbox.checked;
+  }));
+  container.appendChild(options);
+
+  const importButton = document.createElement('button');
+  importButton.textContent = 'Import';
+  container.appendChild(importButton);
+
+  const resultArea = document.createElement('div');
+  container.appendChild(resultArea);
+
+  importButton.onclick = async () => {
+    importButton.disabled = true;
+    const result = await onImport(policy, useColumnSettings);
+    if (!result) {
+      importButton.disabled = false;
+      return;
+    }
+    options.remove();
+    importButton.remove();
+    const { added, identical, skipped, replaced, renamed } = result.counts;
+    const summary = document.createElement('p');
+    summary.textContent = `Imported ${added + replaced + renamed} history entries (${replaced} replaced, ${renamed} under a new timestamp); ` +
+      `${identical} were already in your history and ${skipped} were skipped. ` +
+      `Added ${result.plans.length} plans and ${result.baselines.length} baseline versions.`;
+    resultArea.appendChild(summary);
+    if (result.analyses.length > 0) {
+      resultArea.appendChild(createAnalysisList(result.analyses, onShowAnalysis));
+    }
+  };
+}
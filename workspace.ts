@@ -0,0 +1,260 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Baseline, HistoryEntry, PlanInventory } from './types.ts';
+import { readColumnSettings, type ColumnProfile, type ColumnSettings } from './column-profiles.ts';
+import { nextBaselineVersion } from './baseline.ts';
+
+export const WORKSPACE_FORMAT = 'sgsn-mme-workspace';
+// Bump when the bundle layout changes and add a step to BUNDLE_MIGRATIONS
+export const WORKSPACE_VERSION = 1;
+
+export type WorkspaceAnalysisKind = 'comparison' | 'ai-discrepancies';
+
+// Result of an analysis run in the session, kept so a colleague sees the same output
+export type WorkspaceAnalysis = {
+  kind: WorkspaceAnalysisKind;
+  createdAt: number;
+  // History entries the analysis ran on
+  sources: number[];
+  // Engine or model that produced the result
+  producer: string;
+  result: unknown;
+};
+
+export type WorkspaceContents = {
+  entries: HistoryEntry[];
+  // Entries selected for comparison when the bundle was exported
+  selection: number[];
+  analyses: WorkspaceAnalysis[];
+  columnSettings: ColumnSettings;
+  columnProfiles: ColumnProfile[];
+  plans: PlanInventory[];
+  baselines: Baseline[];
+};
+
+export type WorkspaceBundle = WorkspaceContents & {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: number;
+};
+
+export type ReadWorkspace = {
+  bundle: WorkspaceBundle;
+  // Version of the file when it had to be migrated, otherwise null
+  migratedFrom: number | null;
+};
+
+// What is already stored in this browser
+export type StoredWorkspace = {
+  entries: HistoryEntry[];
+  plans: PlanInventory[];
+  baselines: Baseline[];
+  columnProfiles: ColumnProfile[];
+};
+
+// What to do with a bundle entry whose timestamp is already used by a
+// different history entry
+export type ConflictPolicy = 'skip' | 'replace' | 'keep-both';
+
+export type WorkspaceImportCounts = {
+  added: number;
+  // Same timestamp and same content as a stored entry
+  identical: number;
+  skipped: number;
+  replaced: number;
+  // Stored under a new timestamp ('keep-both')
+  renamed: number;
+};
+
+export type WorkspaceImport = {
+  entries: HistoryEntry[];
+  plans: PlanInventory[];
+  baselines: Baseline[];
+  // Stored profiles merged with the bundle's
+  columnProfiles: ColumnProfile[];
+  analyses: WorkspaceAnalysis[];
+  selection: number[];
+  counts: WorkspaceImportCounts;
+};
+
+export class WorkspaceBundleError extends Error {
+  // Null when the file does not carry a usable version
+  readonly bundleVersion: number | null;
+
+  constructor(message: string, bundleVersion: number | null = null) {
+    super(message);
+    this.name = 'WorkspaceBundleError';
+    this.bundleVersion = bundleVersion;
+  }
+}
+
+type RawBundle = Record<string, unknown>;
+
+function isRecord(value: unknown): value is RawBundle {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function arrayOf(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+// Step n turns a version n bundle into version n + 1
+const BUNDLE_MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // Version 0 is a bare array of history entries, the format older versions
+  // of the analyzer kept in localStorage
+  0: bundle => ({
+    ...bundle,
+    version: 1,
+    exportedAt: Math.max(0, ...arrayOf(bundle.entries).map(entry => isRecord(entry) && typeof entry.timestamp === 'number' ? entry.timestamp : 0)),
+  }),
+};
+
+function readEntries(value: unknown): HistoryEntry[] {
+  return arrayOf(value).map((entry, i) => {
+    if (!isRecord(entry) || typeof entry.timestamp !== 'number' || !Array.isArray(entry.data)) {
+      throw new WorkspaceBundleError(`History entry ${i + 1} has no timestamp or data.`);
+    }
+    return entry as HistoryEntry;
+  });
+}
+
+function readBundle(raw: RawBundle): WorkspaceBundle {
+  const entries = readEntries(raw.entries);
+  const timestamps = new Set(entries.map(entry => entry.timestamp));
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : 0,
+    entries,
+    selection: arrayOf(raw.selection).filter((t): t is number => typeof t === 'number' && timestamps.has(t)),
+    analyses: arrayOf(raw.analyses).filter((analysis): analysis is WorkspaceAnalysis =>
+      isRecord(analysis) && (analysis.kind === 'comparison' || analysis.kind === 'ai-discrepancies') && Array.isArray(analysis.sources)),
+    columnSettings: readColumnSettings(raw.columnSettings),
+    columnProfiles: arrayOf(raw.columnProfiles).flatMap(profile =>
+      isRecord(profile) && typeof profile.name === 'string' ? [{ name: profile.name, ...readColumnSettings(profile) }] : []),
+    plans: arrayOf(raw.plans).filter((plan): plan is PlanInventory =>
+      isRecord(plan) && typeof plan.id === 'number' && Array.isArray(plan.rows)),
+    baselines: arrayOf(raw.baselines).flatMap(baseline =>
+      isRecord(baseline) && typeof baseline.id === 'number' && typeof baseline.node === 'string' && typeof baseline.version === 'number' && Array.isArray(baseline.rows)
+        ? [{ ...baseline, sourceTimestamps: arrayOf(baseline.sourceTimestamps).filter(t => typeof t === 'number') } as Baseline]
+        : []),
+  };
+}
+
+export function createWorkspaceBundle(contents: WorkspaceContents, exportedAt: number = Date.now()): WorkspaceBundle {
+  return { format: WORKSPACE_FORMAT, version: WORKSPACE_VERSION, exportedAt, ...contents };
+}
+
+// Validates a parsed bundle file and migrates older versions to the current one
+export function readWorkspaceBundle(value: unknown): ReadWorkspace {
+  let raw: unknown = Array.isArray(value) ? { format: WORKSPACE_FORMAT, version: 0, entries: value } : value;
+  if (!isRecord(raw) || raw.format !== WORKSPACE_FORMAT) {
+    throw new WorkspaceBundleError('The file is not a workspace bundle.');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new WorkspaceBundleError('The workspace bundle has no valid version.');
+  }
+  if (version > WORKSPACE_VERSION) {
+    throw new WorkspaceBundleError(
+      `The workspace bundle was written by a newer version of the analyzer (bundle version ${version}, this version reads up to ${WORKSPACE_VERSION}).`,
+      version
+    );
+  }
+  for (let step = version; step < WORKSPACE_VERSION; step++) {
+    raw = BUNDLE_MIGRATIONS[step](raw as RawBundle);
+  }
+  return { bundle: readBundle(raw as RawBundle), migratedFrom: version < WORKSPACE_VERSION ? version : null };
+}
+
+// Metadata counts too: an entry renamed, tagged or annotated since the bundle
+// was exported is a conflict, not a duplicate
+function sameEntry(a: HistoryEntry, b: HistoryEntry): boolean {
+  const comparable = (entry: HistoryEntry) => [
+    entry.name ?? '',
+    entry.tags ?? [],
+    entry.notes ?? '',
+    entry.source ?? null,
+    entry.diagnostics ?? null,
+    entry.findings ?? [],
+    entry.records ?? {},
+  ];
+  return a.data.length === b.data.length
+    && JSON.stringify(comparable(a)) === JSON.stringify(comparable(b))
+    && JSON.stringify(a.data) === JSON.stringify(b.data);
+}
+
+// Decides what a bundle adds to the stored workspace. Entries with a clashing
+// timestamp follow `policy`; references to renamed entries (selection,
+// analyses, baselines) are remapped. Plans and baselines keep their id
+// (creation time), so one already stored is the same object and is only
+// overwritten under 'replace', as are column profiles of the same name.
+// Other imported baselines are numbered on from the node's stored versions,
+// in their bundle order, so versions never collide.
+export function planWorkspaceImport(
+  bundle: WorkspaceBundle,
+  existing: StoredWorkspace,
+  policy: ConflictPolicy
+): WorkspaceImport {
+  const stored = new Map(existing.entries.map(entry => [entry.timestamp, entry]));
+  let nextFreeTimestamp = Math.max(0, ...stored.keys(), ...bundle.entries.map(entry => entry.timestamp)) + 1;
+  const timestampMap = new Map<number, number>();
+  const counts: WorkspaceImportCounts = { added: 0, identical: 0, skipped: 0, replaced: 0, renamed: 0 };
+  const entries: HistoryEntry[] = [];
+
+  bundle.entries.forEach(entry => {
+    const current = stored.get(entry.timestamp);
+    if (!current) {
+      entries.push(entry);
+      timestampMap.set(entry.timestamp, entry.timestamp);
+      counts.added++;
+    } else if (sameEntry(current, entry)) {
+      timestampMap.set(entry.timestamp, entry.timestamp);
+      counts.identical++;
+    } else if (policy === 'replace') {
+      entries.push(entry);
+      timestampMap.set(entry.timestamp, entry.timestamp);
+      counts.replaced++;
+    } else if (policy === 'keep-both') {
+      const timestamp = nextFreeTimestamp++;
+      entries.push({ ...entry, timestamp });
+      timestampMap.set(entry.timestamp, timestamp);
+      counts.renamed++;
+    } else {
+      counts.skipped++;
+    }
+  });
+
+  const remap = (timestamps: number[]) => timestamps.flatMap(t => timestampMap.has(t) ? [timestampMap.get(t)!] : []);
+  const isNew = <T extends { id: number }>(items: T[]) => {
+    const ids = new Set(items.map(item => item.id));
+    return (item: T) => policy === 'replace' || !ids.has(item.id);
+  };
+  const storedVersions = new Map(existing.baselines.map(baseline => [baseline.id, baseline.version]));
+  const numbered: Baseline[] = [];
+  bundle.baselines
+    .filter(isNew(existing.baselines))
+    .sort((a, b) => a.version - b.version || a.id - b.id)
+    .forEach(baseline => {
+      const version = storedVersions.get(baseline.id) ?? nextBaselineVersion([...existing.baselines, ...numbered], baseline.node);
+      numbered.push({ ...baseline, version, sourceTimestamps: remap(baseline.sourceTimestamps) });
+    });
+  const profileNames = new Set(bundle.columnProfiles.map(profile => profile.name));
+  const storedNames = new Set(existing.columnProfiles.map(profile => profile.name));
+
+  return {
+    entries,
+    plans: bundle.plans.filter(isNew(existing.plans)),
+    baselines: numbered,
+    columnProfiles: policy === 'replace'
+      ? [...existing.columnProfiles.filter(profile => !profileNames.has(profile.name)), ...bundle.columnProfiles]
+      : [...existing.columnProfiles, ...bundle.columnProfiles.filter(profile => !storedNames.has(profile.name))],
+    analyses: bundle.analyses
+      .filter(analysis => analysis.sources.every(t => timestampMap.has(t)))
+      .map(analysis => ({ ...analysis, sources: remap(analysis.sources) })),
+    selection: remap(bundle.selection),
+    counts,
+  };
+}